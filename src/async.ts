@@ -0,0 +1,237 @@
+/// <reference lib="dom" />
+
+import { createError } from './errors';
+import { FrameData, MessageTarget, WorkerRequest, WorkerResponse } from './worker';
+
+// distributive version of Omit, removing `id` from all requests
+type TrajectoryRequest = WorkerRequest extends infer R
+    ? R extends unknown
+        ? Omit<R, 'id'>
+        : never
+    : never;
+
+interface PendingRequest {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Connection to a trajectory worker, dispatching responses to the
+ * corresponding requests. A single connection is shared by all
+ * {@link AsyncTrajectory} using the same worker.
+ *
+ * If the worker fails (error in the worker script, or message which can not
+ * be deserialized), all pending requests are rejected and the connection
+ * can no longer be used.
+ */
+class Connection {
+    private _target: MessageTarget;
+    private _pending: Map<number, PendingRequest>;
+    private _nextId: number;
+    // error which made the worker unusable, if any
+    private _error: Error | undefined;
+
+    constructor(target: MessageTarget) {
+        this._target = target;
+        this._pending = new Map();
+        this._nextId = 0;
+        this._error = undefined;
+
+        target.addEventListener('error', (event) => {
+            // this is an ErrorEvent for errors in the script, but a plain
+            // Event if the script could not be loaded
+            const message = 'message' in event ? String(event.message) : 'unknown error';
+            this.fail(Error(`error in the trajectory worker: ${message}`));
+        });
+
+        target.addEventListener('messageerror', () => {
+            this.fail(Error('could not deserialize a message from the trajectory worker'));
+        });
+
+        target.addEventListener('message', (event) => {
+            const response = event.data as WorkerResponse;
+            const pending = this._pending.get(response.id);
+            if (pending === undefined) {
+                return;
+            }
+
+            this._pending.delete(response.id);
+            if ('error' in response) {
+                if (response.status !== undefined && response.operation !== undefined) {
+                    // re-create the same kind of error as in the worker
+                    pending.reject(
+                        createError(response.status, response.error, response.operation)
+                    );
+                } else {
+                    pending.reject(Error(response.error));
+                }
+            } else {
+                pending.resolve(response.result);
+            }
+        });
+
+        if (target.start !== undefined) {
+            target.start();
+        }
+    }
+
+    /**
+     * Send the given `request` to the worker, transferring the buffers in
+     * `transfer`, and wait for the response
+     */
+    public send<T>(request: TrajectoryRequest, transfer: Transferable[] = []): Promise<T> {
+        if (this._error !== undefined) {
+            return Promise.reject(this._error);
+        }
+
+        const id = this._nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this._pending.set(id, { reject, resolve: resolve as (result: unknown) => void });
+            this._target.postMessage({ ...request, id }, transfer);
+        });
+    }
+
+    /** Reject all pending requests with `error`, and all future ones */
+    private fail(error: Error): void {
+        this._error = error;
+        for (const pending of this._pending.values()) {
+            pending.reject(error);
+        }
+        this._pending.clear();
+    }
+}
+
+const CONNECTIONS = new WeakMap<MessageTarget, Connection>();
+
+function connect(target: MessageTarget): Connection {
+    let connection = CONNECTIONS.get(target);
+    if (connection === undefined) {
+        connection = new Connection(target);
+        CONNECTIONS.set(target, connection);
+    }
+    return connection;
+}
+
+/**
+ * Asynchronous version of {@link Trajectory}, reading files inside a Web
+ * Worker to keep the main thread responsive.
+ *
+ * The worker must run a script calling {@link startTrajectoryWorker}. Instead
+ * of {@link Frame}, reading a step returns the corresponding {@link FrameData},
+ * where all the arrays are transferred from the worker without copies. The
+ * same worker can be used by multiple `AsyncTrajectory` at once.
+ *
+ * ```typescript
+ * const trajectory = await chemfiles.AsyncTrajectory.open('worker.js', data, 'DCD');
+ * const frame = await trajectory.read();
+ * console.log(`step ${frame.step} contains ${frame.size} atoms`);
+ * await trajectory.close();
+ * ```
+ */
+export class AsyncTrajectory {
+    private _connection: Connection;
+    private _worker: Worker | undefined;
+    private _trajectory: number | undefined;
+
+    private constructor(connection: Connection, worker: Worker | undefined, trajectory: number) {
+        this._connection = connection;
+        this._worker = worker;
+        this._trajectory = trajectory;
+    }
+
+    /**
+     * Open a trajectory inside the given `worker`. The `source` can either be
+     * a path, accessible by the worker, or the content of the file. In the
+     * latter case, the buffer containing the data is transferred to the
+     * worker and can no longer be used after calling this function. The data
+     * is read with a {@link MemoryReader}, or from a temporary file in the
+     * worker for formats which can not be read from memory (DCD, XTC, TRR,
+     * *etc.*).
+     *
+     * When `worker` is a string, a new `Worker` is started using this URL, and
+     * terminated when calling {@link AsyncTrajectory.close}.
+     *
+     * @param worker   worker running {@link startTrajectoryWorker}, or URL of
+     *                 the corresponding script
+     * @param source   path to the file or content of the file to read
+     * @param format   format to use when reading the file
+     * @param filename name of the file, used to guess the format when reading
+     *                 data from memory
+     * @return         a promise resolving to the opened trajectory
+     */
+    public static open(
+        worker: MessageTarget | string,
+        source: string | Uint8Array,
+        format: string = '',
+        filename: string = ''
+    ): Promise<AsyncTrajectory> {
+        const owned = typeof worker === 'string' ? new Worker(worker) : undefined;
+        const connection = connect(owned === undefined ? (worker as MessageTarget) : owned);
+        // shared memory can not be transferred
+        const transfer =
+            typeof source !== 'string' && source.buffer instanceof ArrayBuffer
+                ? [source.buffer]
+                : [];
+        return connection
+            .send<number>({ filename, format, source, type: 'open' }, transfer)
+            .then((trajectory) => new AsyncTrajectory(connection, owned, trajectory))
+            .catch((error: Error) => {
+                owned?.terminate();
+                throw error;
+            });
+    }
+
+    /**
+     * Read the next step of this trajectory.
+     *
+     * @return a promise resolving to the data of the next step
+     */
+    public read(): Promise<FrameData> {
+        return this.send((trajectory) => ({ trajectory, type: 'read' }));
+    }
+
+    /**
+     * Read the given `step` of this trajectory.
+     *
+     * @param  step step to read, starting at 0
+     * @return      a promise resolving to the data of this step
+     */
+    public readStep(step: number): Promise<FrameData> {
+        return this.send((trajectory) => ({ step, trajectory, type: 'readStep' }));
+    }
+
+    /**
+     * Get the number of steps (the number of frames) in this trajectory.
+     *
+     * @return a promise resolving to the number of steps
+     */
+    public nsteps(): Promise<number> {
+        return this.send((trajectory) => ({ trajectory, type: 'nsteps' }));
+    }
+
+    /**
+     * Close this trajectory, releasing all associated resources in the
+     * worker. The worker itself is terminated if it was started by
+     * {@link AsyncTrajectory.open}.
+     */
+    public close(): Promise<void> {
+        if (this._trajectory === undefined) {
+            return Promise.resolve();
+        }
+
+        const request = this.send<void>((trajectory) => ({ trajectory, type: 'close' }));
+        this._trajectory = undefined;
+        return request.finally(() => this._worker?.terminate());
+    }
+
+    /**
+     * Send the request created by `build` for this trajectory to the worker,
+     * or fail if this trajectory is closed
+     */
+    private send<T>(build: (trajectory: number) => TrajectoryRequest): Promise<T> {
+        if (this._trajectory === undefined) {
+            return Promise.reject(Error('this AsyncTrajectory is closed'));
+        }
+        return this._connection.send<T>(build(this._trajectory));
+    }
+}
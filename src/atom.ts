@@ -1,4 +1,4 @@
-import { CHFL_ATOM } from './libchemfiles';
+import { CHFL_ATOM, CHFL_PTR } from './libchemfiles';
 import { lib } from './misc';
 
 import { Pointer } from './c_ptr';
@@ -23,11 +23,12 @@ export class Atom extends Pointer<CHFL_ATOM, never> {
     /** @hidden
      * Create a new {@link Atom} from a raw pointer
      */
-    public static __from_ptr(ptr: CHFL_ATOM, isConst: boolean): Atom {
-        const parent = new Pointer(ptr, isConst, 'Atom');
-        const atom = Object.create(Atom.prototype) as Atom;
-        Object.assign(atom, parent);
-        return atom;
+    public static __from_ptr(
+        ptr: CHFL_ATOM,
+        isConst: boolean,
+        owner?: Pointer<CHFL_PTR, unknown>
+    ): Atom {
+        return Reflect.construct(Pointer, [ptr, isConst, 'Atom', owner], Atom) as Atom;
     }
 
     /**
@@ -1,87 +1,137 @@
 /// <reference lib="dom" />
 
-import { FS, ready } from './misc';
-import { Trajectory } from './trajectory';
-
-let PREFIX: string;
-if (typeof window === 'object') {
-    PREFIX = '/chemfiles';
-    ready(() => FS.mkdir(PREFIX));
-} else {
-    // eslint-disable-next-line
-    const os = require('os');
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access,@typescript-eslint/no-unsafe-call
-    PREFIX = os.tmpdir() as string;
-}
+import {
+    MemoryOptions,
+    compressedFormat,
+    compressionFromData,
+    compressionFromFilename,
+    splitFormat,
+} from './compression';
+import { guessFileFormat } from './guess';
+import { CHFL_TRAJECTORY, c_char_ptr } from './libchemfiles';
+import { FS, lib } from './misc';
+import { Trajectory, openMemoryReader } from './trajectory';
+
+import { getValue, stackAlloc, stackAutoclean } from './stack';
+import { check } from './utils';
+
+// MIME types for the formats with a well-known one. All other formats
+// supporting in-memory writing are text-based, and use `text/plain`.
+const MIME_TYPES: Record<string, string> = {
+    CIF: 'chemical/x-cif',
+    CML: 'chemical/x-cml',
+    MOL2: 'chemical/x-mol2',
+    PDB: 'chemical/x-pdb',
+    SDF: 'chemical/x-mdl-sdfile',
+    SMI: 'chemical/x-daylight-smiles',
+    XYZ: 'chemical/x-xyz',
+    mmCIF: 'chemical/x-mmcif',
+};
+
+// Formats which write some data only when the trajectory is closed (the
+// final `END` record for PDB, the whole file for CML and MMTF). chemfiles
+// releases the memory of in-memory writers when closing them, so these
+// formats are written to a file in the Emscripten file system instead.
+const FINISHED_ON_CLOSE = ['CML', 'MMTF', 'PDB'];
+
+// time before releasing the URLs created by MemoryWriter.download, in
+// milliseconds
+const DOWNLOAD_URL_LIFETIME = 40 * 1000;
+
+const IS_NODE =
+    typeof process === 'object' &&
+    typeof process.versions === 'object' &&
+    typeof process.versions.node === 'string';
 
-function randomName(len: number): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-    for (let i = 0; i < len; i++) {
-        const position = Math.floor(Math.random() * chars.length);
-        result += chars.substring(position, position + 1);
+// directory containing the temporary files used by MemoryWriter and the
+// trajectory worker, and number of files created so far, used to give a
+// unique name to each file
+let TEMPORARY_DIRECTORY: string | undefined;
+let TEMPORARY_FILES = 0;
+
+/** @hidden
+ * Get a new path for a temporary file, used when chemfiles can not work on
+ * data in memory. With node, chemfiles uses the real file system and the
+ * files are created in a new temporary directory. In browsers, they are
+ * created in MEMFS.
+ */
+export function temporaryPath(): string {
+    if (TEMPORARY_DIRECTORY === undefined) {
+        if (IS_NODE) {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const fs = require('fs') as typeof import('fs');
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const os = require('os') as typeof import('os');
+            const directory = fs.mkdtempSync(`${os.tmpdir()}/chemfiles-`);
+            // remove the files which were not removed after use
+            process.on('exit', () => fs.rmSync(directory, { force: true, recursive: true }));
+            TEMPORARY_DIRECTORY = directory;
+        } else {
+            TEMPORARY_DIRECTORY = '/chemfiles';
+        }
     }
-    return result;
+
+    // each chemfiles instance has its own MEMFS
+    if (!FS.analyzePath(TEMPORARY_DIRECTORY).exists) {
+        FS.mkdir(TEMPORARY_DIRECTORY);
+    }
+
+    TEMPORARY_FILES += 1;
+    return `${TEMPORARY_DIRECTORY}/file-${TEMPORARY_FILES}`;
 }
 
-function normalizePath(path: string): string {
-    if (path === '') {
-        do {
-            // find a new name, avoiding collisions
-            path = randomName(12);
-        } while (FS.analyzePath(`${PREFIX}/${path}`).exists);
+/** Open a trajectory writing to the file at `path` with the given `format` */
+function openFileWriter(path: string, format: string): CHFL_TRAJECTORY {
+    return stackAutoclean(() => {
+        const pathRef = stackAlloc('char*', { initial: path });
+        const formatRef = stackAlloc('char*', { initial: format });
+        return lib._chfl_trajectory_with_format(pathRef.ptr, 'w'.charCodeAt(0), formatRef.ptr);
+    });
+}
+
+/**
+ * Get the format to use for an in-memory trajectory, from the explicit
+ * `format`, the `filename` extension, or the content of the file in `data`.
+ */
+function memoryFormat(
+    format: string,
+    filename: string,
+    className: string,
+    data?: Uint8Array
+): string {
+    if (format !== '') {
+        return format;
+    }
+
+    const guessed = guessFileFormat(filename, data);
+    if (guessed === undefined) {
+        throw Error(`Either format or filename is required to create a ${className}`);
     }
-    return `${PREFIX}/${path}`;
+    return guessed;
 }
 
 /**
- * Implementation of Trajectory for reading data from memory.
+ * Implementation of Trajectory for reading and writing data in memory.
  *
  * The main use case for this is enabling reading & writing files in the
- * browser.
- *
- * This is a temporary implementation for chemfiles 0.9, since this
- * functionality was added to chemfiles 0.10. In the browser this is using
- * Emscripten MEMFS; and with node this is using temporary files.
+ * browser. This uses the in-memory trajectories from chemfiles, and never
+ * touches the file system.
  */
 class MemoryTrajectory extends Trajectory {
-    protected constructor(path: string, mode: string, format: string) {
-        super(path, mode, format);
-    }
-
     /**
-     * Get the current content of the file as an array of bytes.
-     *
-     * When writing a trajectory, you may want to {@link close} the file first to
-     * ensure all content is flushed to the buffer.
+     * Get the name of the file given when creating this in-memory
+     * {@link Trajectory}, if any.
      */
-    public asUint8Array(): Uint8Array {
-        return FS.readFile(this.path, { encoding: 'binary' });
+    get path(): string {
+        return this._extra.jsPath ?? '';
     }
 
     /**
-     * Release the memory (in browser) or drive space (in node) used by this
-     * file.
+     * Release the memory used by this trajectory. This is the same as
+     * calling {@link Trajectory.close}.
      */
     public remove(): void {
         this.close();
-        FS.unlink(this.path);
-    }
-
-    /**
-     * Get the path used to open this in-memory {@link Trajectory}
-     *
-     * ```typescript
-     * const trajectory = new chemfiles.MemoryReader('path/to/file.tng');
-     * assert.equal(trajectory.path, 'path/to/file.tng');
-     * trajectory.close();
-     * ```
-     */
-    public get path(): string {
-        if (this._extra.jsPath === undefined) {
-            throw Error('jsPath should not be undefined');
-        }
-        return this._extra.jsPath;
     }
 }
 
@@ -97,24 +147,48 @@ export class MemoryReader extends MemoryTrajectory {
      * The file format should be provided in `format`; or a `filename`
      * should be given in which case the format is guessed from the filename
      * extension. If both `format` and `filename` are provided; `format` takes
-     * precedence.
+     * precedence. If neither is provided, or if `filename` does not have a
+     * known extension, the format is guessed from the content of the data
+     * with {@link guessFormatFromContent}.
      *
      * The data might come from HTTP requests, user file upload or any other
-     * sources.
+     * sources. It is copied to WASM memory, and can be modified after
+     * creating the reader.
+     *
+     * Data compressed with gzip, bzip2 or xz is decompressed automatically.
+     * The compression is taken from `options.compression`, or the `format`
+     * (e.g. `'XYZ / GZ'`), or the extension of `filename`, or detected from
+     * the first bytes of the data.
+     *
+     * ```typescript
+     * // the upload contains gzip-compressed XYZ data
+     * const data = new Uint8Array(await input.files[0].arrayBuffer());
+     * using trajectory = new chemfiles.MemoryReader(data, 'XYZ');
+     * ```
      *
      * @param data      buffer containing the file content
      * @param format    format to use when reading the file
      * @param filename  name of the file that is being read
+     * @param options   compression of the data
      */
-    constructor(data: Uint8Array, format: string = '', filename: string = '') {
-        if (format === '' && filename === '') {
-            throw Error('Either format or filename is required to create a MemoryReader');
-        }
+    constructor(
+        data: Uint8Array,
+        format: string = '',
+        filename: string = '',
+        options: MemoryOptions = {}
+    ) {
+        format = compressedFormat(
+            memoryFormat(format, filename, 'MemoryReader', data),
+            options,
+            () => compressionFromFilename(filename) ?? compressionFromData(data)
+        );
 
-        const path = normalizePath(filename);
-        FS.writeFile(path, data);
+        // chemfiles does not copy the data, which must stay alive as long as
+        // the trajectory is open
+        const memory = lib._malloc(Math.max(data.length, 1)) as c_char_ptr;
+        lib.HEAPU8.set(data, memory);
 
-        super(path, 'r', format);
+        super(filename, () => openMemoryReader(memory, data.length, format), format, memory);
     }
 }
 
@@ -132,20 +206,195 @@ export class MemoryWriter extends MemoryTrajectory {
      * extension. If both `format` and `filename` are provided; `format` takes
      * precedence.
      *
-     * Before getting the file content with {@link MemoryWriter.asBlob} or
-     * {@link MemoryWriter.asUint8Array}; ensure the file is flushed with
-     * {@link MemoryWriter.close}.
+     * The content written so far can be retrieved with
+     * {@link MemoryWriter.asUint8Array} or {@link MemoryWriter.asBlob}. Some
+     * formats (CML, MMTF and PDB) only write the end of the file when the
+     * trajectory is closed, so the trajectory should be closed before
+     * retrieving the content. These formats are written to a file in the
+     * Emscripten file system (in MEMFS for browsers, in a temporary directory
+     * with node), which is removed when closing the trajectory.
      *
-     * @param data      buffer containing the file content
-     * @param format    format to use when reading the file
-     * @param filename  name of the file that is being read
+     * The compression is taken from `options.compression`, or the `format`,
+     * or the extension of `filename`. chemfiles does not support writing
+     * compressed data to memory yet, so this constructor throws a
+     * {@link FileError} if any compression is used. Use `{ compression:
+     * 'none' }` to write uncompressed data with a `filename` ending in `.gz`,
+     * `.bz2` or `.xz`.
+     *
+     * @param format    format to use when writing the file
+     * @param filename  name of the file that is being written
+     * @param options   compression of the data
      */
-    constructor(format: string = '', filename: string = '') {
-        if (format === '' && filename === '') {
-            throw Error('Either format or filename is required to create a MemoryWriter');
+    constructor(format: string = '', filename: string = '', options: MemoryOptions = {}) {
+        format = compressedFormat(memoryFormat(format, filename, 'MemoryWriter'), options, () =>
+            compressionFromFilename(filename)
+        );
+
+        // compressed formats use the in-memory writer, which reports an error
+        const { name, compression } = splitFormat(format);
+        const path =
+            compression === undefined && FINISHED_ON_CLOSE.includes(name)
+                ? temporaryPath()
+                : undefined;
+        super(
+            filename,
+            () => {
+                if (path !== undefined) {
+                    return openFileWriter(path, format);
+                }
+                return stackAutoclean(() => {
+                    const formatRef = stackAlloc('char*', { initial: format });
+                    return lib._chfl_trajectory_memory_writer(formatRef.ptr);
+                });
+            },
+            format
+        );
+        this._extra.mode = 'w';
+        this._extra.file = path;
+    }
+
+    /**
+     * Get the data written so far as an array of bytes.
+     *
+     * This returns a copy of the data, which is not updated when writing
+     * more frames. Some formats only write parts of the file when the
+     * trajectory is closed (the final `END` record for PDB, the whole
+     * document for CML and MMTF), and the data returned by this function is
+     * only a complete file after calling {@link MemoryWriter.close}.
+     *
+     * ```typescript doctest
+     * const frame = new chemfiles.Frame();
+     * const atom = new chemfiles.Atom('Zn');
+     * frame.addAtom(atom, [1, 2, 3]);
+     *
+     * const trajectory = new chemfiles.MemoryWriter('XYZ');
+     * trajectory.write(frame);
+     * trajectory.close();
+     *
+     * const data = trajectory.asUint8Array();
+     * // the file starts with the number of atoms
+     * assert.equal(String.fromCharCode(data[0]), '1');
+     *
+     * frame.delete();
+     * atom.delete();
+     * ```
+     */
+    public asUint8Array(): Uint8Array {
+        if (this._extra.content !== undefined) {
+            return this._extra.content.slice();
         }
 
-        const path = normalizePath(filename);
-        super(path, 'w', format);
+        if (this._extra.file !== undefined) {
+            return FS.readFile(this._extra.file, { encoding: 'binary' });
+        }
+
+        return stackAutoclean(() => {
+            const data = stackAlloc('char*[]', { count: 1 });
+            const size = stackAlloc('uint64_t');
+            check(lib._chfl_trajectory_memory_buffer(this.const_ptr, data.ptr, size.ptr));
+
+            const start = lib.getValue(data.ptr, '*');
+            return lib.HEAPU8.slice(start, start + getValue(size));
+        });
+    }
+
+    /**
+     * Get the data written so far as a `Blob`, for example to upload it to a
+     * server or to display it in the page. Like
+     * {@link MemoryWriter.asUint8Array}, this is only a complete file after
+     * closing the trajectory.
+     *
+     * When `mimeType` is not given, it is chosen from the format of this
+     * trajectory: `chemical/x-pdb` for PDB, `chemical/x-xyz` for XYZ, *etc.*
+     * Formats without a well-known MIME type use `text/plain`.
+     *
+     * ```typescript doctest
+     * const trajectory = new chemfiles.MemoryWriter('PDB');
+     * // [...]
+     * trajectory.close();
+     *
+     * assert.equal(trajectory.asBlob().type, 'chemical/x-pdb');
+     * assert.equal(trajectory.asBlob('text/plain').type, 'text/plain');
+     * ```
+     *
+     * @param  mimeType MIME type of the data
+     * @return          a `Blob` containing a copy of the data
+     */
+    public asBlob(mimeType?: string): Blob {
+        const type = mimeType ?? MIME_TYPES[this._extra.format ?? ''] ?? 'text/plain';
+        return new Blob([this.asUint8Array()], { type });
+    }
+
+    /**
+     * Trigger a download of the data written so far in the browser. Like
+     * {@link MemoryWriter.asUint8Array}, this is only a complete file after
+     * closing the trajectory.
+     *
+     * The name of the downloaded file is `name`, followed by the extension
+     * associated with the format of this trajectory (see {@link formatsList})
+     * if `name` does not already end with it. `name` defaults to the
+     * `filename` given to the constructor, or `'chemfiles'`.
+     *
+     * ```typescript
+     * const trajectory = new chemfiles.MemoryWriter('PDB');
+     * trajectory.write(frame);
+     * trajectory.close();
+     *
+     * // downloads 'protein.pdb'
+     * trajectory.download('protein');
+     * ```
+     *
+     * @param name name of the downloaded file
+     */
+    public download(name?: string): void {
+        if (typeof document === 'undefined') {
+            throw Error('MemoryWriter.download is only available in browsers');
+        }
+
+        const blob = this.asBlob();
+        const filename = this.downloadName(name ?? (this.path === '' ? 'chemfiles' : this.path));
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        // browsers start the download asynchronously, and some of them cancel
+        // it if the URL is released too early
+        setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+    }
+
+    /** @hidden */
+    public delete(): void {
+        if (this._extra.content !== undefined) {
+            // the trajectory is already closed
+            return;
+        }
+
+        const file = this._extra.file;
+        if (file === undefined) {
+            // chemfiles releases the memory buffer together with the trajectory
+            this._extra.content = this.asUint8Array();
+            super.delete();
+        } else {
+            // the end of the file is only written when closing the trajectory
+            super.delete();
+            this._extra.content = FS.readFile(file, { encoding: 'binary' });
+            FS.unlink(file);
+        }
+    }
+
+    /**
+     * Add the extension corresponding to the format of this trajectory to
+     * `name`, if `name` does not already end with it.
+     */
+    private downloadName(name: string): string {
+        const extension = this.metadata.extension ?? '';
+        if (name.endsWith(extension)) {
+            return name;
+        }
+        return name + extension;
     }
 }
@@ -1,7 +1,44 @@
+/// <reference lib="es2021.weakref" />
+
 import { CHFL_PTR } from './libchemfiles';
-import { lib } from './misc';
+import { Instance, currentInstance, lib } from './misc';
+
+import { trackAllocation, trackRelease } from './debug';
+import { nullPointerError } from './errors';
+import { trackInScope } from './scope';
+
+declare global {
+    interface SymbolConstructor {
+        /**
+         * Well-known symbol used by explicit resource management (`using`
+         * declarations). This is declared here until we can rely on a
+         * TypeScript version shipping `lib.esnext.disposable`.
+         */
+        readonly dispose: unique symbol;
+    }
+}
 
-import { lastError } from './misc';
+// use the same symbol as other polyfills when the JavaScript engine does not
+// provide `Symbol.dispose`, instead of defining a method named "undefined"
+if (typeof Symbol.dispose !== 'symbol') {
+    Object.defineProperty(Symbol, 'dispose', { value: Symbol.for('Symbol.dispose') });
+}
+
+/**
+ * Registry used to release the WASM memory of pointers which were garbage
+ * collected without a call to `delete()`. The held value is the raw pointer
+ * together with the instance it belongs to, and the unregister token is the
+ * {@link Pointer} itself.
+ *
+ * `FinalizationRegistry` is not available in all JavaScript engines, in which
+ * case users have to call `delete()` manually.
+ */
+const FINALIZER =
+    typeof FinalizationRegistry === 'undefined'
+        ? undefined
+        : new FinalizationRegistry<{ ptr: CHFL_PTR; instance: Instance }>(({ ptr, instance }) =>
+              instance.lib?._chfl_free(ptr)
+          );
 
 /**
  * A wrapper for all common behavior for C++ allocated pointers. This is an
@@ -14,6 +51,14 @@ export class Pointer<T extends CHFL_PTR, Extra = never> {
     private _ptr: T;
     private _className: string;
     private _isConst: boolean;
+    // chemfiles instance which allocated this pointer
+    private _instance: Instance;
+    // object owning the memory this pointer points into, if any
+    private _owner: Pointer<CHFL_PTR, unknown> | undefined;
+    // value of the owner generation when this pointer was created
+    private _ownerGeneration: number;
+    // incremented every time the memory of borrowed pointers is invalidated
+    private _generation: number;
 
     /**
      * Create a new Pointer<T> from the given value. `isConst` indicate if the
@@ -21,31 +66,110 @@ export class Pointer<T extends CHFL_PTR, Extra = never> {
      * it is UB to write through a const pointer, we have to track the const-ness
      * of pointers.
      *
+     * When the pointer points inside the memory of another object (for
+     * example an atom inside a frame), this other object should be given as
+     * `owner`. Accessing the pointer will then fail after the owner is deleted
+     * or modified in a way that invalidates the pointer (see
+     * {@link Pointer.__invalidate_borrowed}).
+     *
+     * The memory behind the pointer is released when this object is garbage
+     * collected, or when calling {@link Pointer.delete}, whichever comes first.
+     *
      * @param ptr     address of the chemfiles object
      * @param isConst is the object behind the pointer const?
+     * @param owner   object owning the memory behind the pointer
      */
-    constructor(ptr: T, isConst: boolean, className: string) {
+    constructor(ptr: T, isConst: boolean, className: string, owner?: Pointer<CHFL_PTR, unknown>) {
         if (ptr === 0) {
-            throw Error(lastError());
+            throw nullPointerError();
         }
 
         this._ptr = ptr;
         this._isConst = isConst;
         this._className = className;
+        this._instance = currentInstance();
+        this._owner = owner;
+        this._ownerGeneration = owner === undefined ? 0 : owner._generation;
+        this._generation = 0;
         this._extra = {};
         Object.preventExtensions(this);
+
+        if (FINALIZER !== undefined) {
+            FINALIZER.register(this, { instance: this._instance, ptr }, this);
+        }
+        trackInScope(this);
+        trackAllocation(this, className);
     }
 
     /**
      * Delete the WASM-allocated object and release the corresponding memory.
      *
-     * Since JavaScript have no way to inject behavior when the GC is called,
-     * users need to call this function manually when they are done with the
-     * object.
+     * The memory is also released when this object is garbage collected, but
+     * there is no guarantee on when (or if) this will happen. Calling this
+     * function releases the memory immediately, and should be preferred when
+     * dealing with large objects. Calling it multiple times is a no-op.
      */
     public delete(): void {
+        if (this._ptr === 0) {
+            return;
+        }
+
+        if (FINALIZER !== undefined) {
+            FINALIZER.unregister(this);
+        }
+        trackRelease(this);
         lib._chfl_free(this._ptr);
         this._ptr = 0 as T;
+        // views inside the memory of this object (e.g. Array3D) must look at
+        // the pointer again, and will find out that it was deleted
+        this._generation += 1;
+    }
+
+    /**
+     * Release the memory associated with this object, as if calling
+     * {@link Pointer.delete}. This allows to use chemfiles objects with
+     * explicit resource management, releasing the memory at the end of the
+     * current scope:
+     *
+     * ```typescript
+     * {
+     *     using frame = new chemfiles.Frame();
+     *     // [...]
+     * }
+     * // frame memory is released here
+     * ```
+     *
+     * When the JavaScript engine does not provide `Symbol.dispose`, it is
+     * defined as `Symbol.for('Symbol.dispose')`.
+     */
+    public [Symbol.dispose](): void {
+        this.delete();
+    }
+
+    /** @hidden
+     * Invalidate all pointers borrowed from this one, i.e. all pointers created
+     * with this object as `owner`, and recursively all pointers borrowed from
+     * them. This must be called whenever the memory these pointers point to
+     * might have been reallocated or re-assigned (resizing, reading a new
+     * frame, ...)
+     */
+    public __invalidate_borrowed(): void {
+        this._generation += 1;
+    }
+
+    /** @hidden
+     * get the current generation of this pointer, which changes every time
+     * the pointers borrowed from this one are invalidated
+     */
+    get __generation(): number {
+        return this._generation;
+    }
+
+    /** @hidden
+     * get the chemfiles instance this pointer belongs to
+     */
+    get __instance(): Instance {
+        return this._instance;
     }
 
     /** @hidden
@@ -64,8 +188,36 @@ export class Pointer<T extends CHFL_PTR, Extra = never> {
     get const_ptr(): T {
         if (this._ptr === 0) {
             throw Error('trying to access an object after calling delete()');
+        } else if (this._instance !== currentInstance()) {
+            throw Error(`this ${this._className} belongs to a different chemfiles instance`);
         }
 
+        this.checkOwner();
         return this._ptr;
     }
+
+    /**
+     * Check that the owner of this pointer (if any) was not deleted or modified
+     * since this pointer was created, and that the owner is itself valid. The
+     * error message refers to this object, and to the owner which was
+     * deleted or modified, which might be the owner of the owner.
+     */
+    private checkOwner(): void {
+        let owner = this._owner;
+        let generation = this._ownerGeneration;
+        while (owner !== undefined) {
+            if (owner._ptr === 0) {
+                throw Error(
+                    `trying to access this ${this._className} after the ${owner._className} containing it was deleted`
+                );
+            } else if (owner._generation !== generation) {
+                throw Error(
+                    `trying to access this ${this._className} after the ${owner._className} containing it was modified`
+                );
+            }
+
+            generation = owner._ownerGeneration;
+            owner = owner._owner;
+        }
+    }
 }
@@ -0,0 +1,353 @@
+import { Instance, currentInstance, withInstance } from './misc';
+
+import { Frame } from './frame';
+import { untrack } from './scope';
+import { Trajectory } from './trajectory';
+
+import { assert, isUnsignedInteger } from './utils';
+import { StrictOptions } from './warnings';
+
+/** Options for {@link CachedTrajectory} */
+export interface CacheOptions {
+    /**
+     * Maximal memory used by the cached frames, in bytes. The memory used by
+     * each frame is estimated from its number of atoms. This defaults to
+     * 64 MiB.
+     */
+    memoryBudget?: number;
+    /**
+     * Number of steps to read in advance in the playback direction, after
+     * each call to {@link CachedTrajectory.readStep}. This defaults to 0, i.e.
+     * no prefetching.
+     */
+    prefetch?: number;
+}
+
+/** Statistics about the usage of the cache of a {@link CachedTrajectory} */
+export interface CacheStatistics {
+    /** Number of steps read from the cache */
+    hits: number;
+    /** Number of steps which were not in the cache, and read from the file */
+    misses: number;
+    /** Number of steps read in advance by prefetching */
+    prefetched: number;
+    /** Number of frames removed from the cache to stay within the budget */
+    evicted: number;
+    /** Number of frames currently in the cache */
+    frames: number;
+    /** Estimated memory used by the frames currently in the cache, in bytes */
+    memory: number;
+}
+
+/** Frame stored in the cache, with its estimated memory */
+interface CacheEntry {
+    frame: Frame;
+    memory: number;
+    /** was the frame read in strict mode, i.e. without any warning */
+    strict: boolean;
+}
+
+const DEFAULT_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+// rough estimate of the memory used by the atom data and topology for each
+// atom in a frame, in bytes. Positions and velocities are counted separately.
+const ATOM_MEMORY = 200;
+
+/** Estimate the memory used by `frame`, in bytes */
+function frameMemory(frame: Frame): number {
+    const vectors = frame.velocities === undefined ? 1 : 2;
+    return frame.size * (ATOM_MEMORY + vectors * 3 * 8);
+}
+
+/**
+ * Wrapper around a {@link Trajectory} keeping recently read frames in memory,
+ * for random access to the same steps (for example when scrubbing through a
+ * trajectory in a viewer).
+ *
+ * The least recently used frames are removed from the cache when the
+ * estimated memory of all cached frames exceeds the budget. After each call
+ * to {@link CachedTrajectory.readStep}, the next steps in the playback
+ * direction can be read in advance, one step at a time in separate tasks of
+ * the event loop. The memory budget should be large enough to contain these
+ * steps and the current one.
+ *
+ * ```typescript
+ * const trajectory = new chemfiles.Trajectory('trajectory.dcd');
+ * const cached = new chemfiles.CachedTrajectory(trajectory, { prefetch: 5 });
+ *
+ * slider.addEventListener('input', () => {
+ *     using frame = cached.readStep(slider.valueAsNumber);
+ *     render(frame);
+ * });
+ *
+ * // [...]
+ * console.log(`cache hits: ${cached.statistics.hits}`);
+ * cached.close();
+ * ```
+ */
+export class CachedTrajectory {
+    private readonly _trajectory: Trajectory;
+    private readonly _budget: number;
+    private readonly _prefetch: number;
+    // chemfiles instance used to read the frames
+    private readonly _instance: Instance;
+    // cached frames, from the least to the most recently used
+    private readonly _cache: Map<number, CacheEntry>;
+    private _memory: number;
+    private _statistics: Omit<CacheStatistics, 'frames' | 'memory'>;
+    // last step requested and playback direction (+1 or -1)
+    private _last: number | undefined;
+    private _direction: number;
+    private _nsteps: number | undefined;
+    // steps remaining to prefetch, and corresponding timer
+    private _pending: number[];
+    private _timer: ReturnType<typeof setTimeout> | undefined;
+    private _closed: boolean;
+
+    /**
+     * Create a new cache for the frames of `trajectory`. The
+     * `CachedTrajectory` takes ownership of the trajectory, which is closed
+     * by {@link CachedTrajectory.close}.
+     *
+     * @param trajectory trajectory to read frames from
+     * @param options    memory budget and number of steps to prefetch
+     */
+    constructor(trajectory: Trajectory, options: CacheOptions = {}) {
+        const budget = options.memoryBudget ?? DEFAULT_MEMORY_BUDGET;
+        const prefetch = options.prefetch ?? 0;
+        assert(budget >= 0, 'memoryBudget must be positive');
+        assert(isUnsignedInteger(prefetch), 'prefetch must be an unsigned integer');
+
+        this._trajectory = trajectory;
+        this._budget = budget;
+        this._prefetch = prefetch;
+        this._instance = currentInstance();
+        this._cache = new Map();
+        this._memory = 0;
+        this._statistics = { evicted: 0, hits: 0, misses: 0, prefetched: 0 };
+        this._last = undefined;
+        this._direction = 1;
+        this._nsteps = undefined;
+        this._pending = [];
+        this._timer = undefined;
+        this._closed = false;
+    }
+
+    /** Get the {@link Trajectory} wrapped by this cache */
+    get trajectory(): Trajectory {
+        return this._trajectory;
+    }
+
+    /** Get the number of steps in the underlying {@link Trajectory} */
+    get nsteps(): number {
+        return this._trajectory.nsteps;
+    }
+
+    /**
+     * Get statistics about the usage of this cache. The returned object is a
+     * snapshot, and is not updated afterward.
+     *
+     * ```typescript
+     * const { hits, misses } = cached.statistics;
+     * console.log(`cache hit rate: ${(100 * hits) / (hits + misses)}%`);
+     * ```
+     */
+    get statistics(): CacheStatistics {
+        return { ...this._statistics, frames: this._cache.size, memory: this._memory };
+    }
+
+    /**
+     * Read the given `step`, from the cache if possible or from the
+     * underlying {@link Trajectory} otherwise. Prefetching of the following
+     * steps in the playback direction starts after this function returns.
+     *
+     * This always returns a new {@link Frame}, owned by the caller and which
+     * should be released with {@link Frame.delete}. Frames in the cache are
+     * only accessible through copies, and can not be modified.
+     *
+     * Warnings are only emitted when the step is read from the file. Frames
+     * read without strict mode (including prefetched frames) are read again
+     * from the file when the step is requested in strict mode.
+     *
+     * @param  step    step (starting at 0) to read from the trajectory
+     * @param  options use `strict` to turn warnings into errors when reading
+     *                 the step from the file, see {@link setStrictMode}
+     * @return         a new {@link Frame} containing the data for this step
+     */
+    public readStep(step: number, options: StrictOptions = {}): Frame {
+        assert(isUnsignedInteger(step), 'step must be an unsigned integer');
+        if (this._closed) {
+            throw Error('this CachedTrajectory is closed');
+        }
+
+        if (this._last !== undefined && step !== this._last) {
+            this._direction = step > this._last ? 1 : -1;
+        }
+        this._last = step;
+
+        const frame = withInstance(this._instance, () => {
+            const strict = options.strict ?? currentInstance().strict;
+            const entry = this._cache.get(step);
+            if (entry !== undefined && (entry.strict || !strict)) {
+                this._statistics.hits += 1;
+                // mark the frame as the most recently used
+                this._cache.delete(step);
+                this._cache.set(step, entry);
+                return Frame.clone(entry.frame);
+            }
+
+            this._statistics.misses += 1;
+            const result = this.read(step, { strict });
+            return this.store(step, result, strict) ? Frame.clone(result) : result;
+        });
+
+        this.schedulePrefetch(step);
+        return frame;
+    }
+
+    /**
+     * Remove all frames from the cache, and stop prefetching. This does not
+     * reset the {@link CachedTrajectory.statistics}.
+     */
+    public clear(): void {
+        this.cancelPrefetch();
+        withInstance(this._instance, () => {
+            for (const entry of this._cache.values()) {
+                entry.frame.delete();
+            }
+        });
+        this._cache.clear();
+        this._memory = 0;
+    }
+
+    /**
+     * Release all cached frames, stop prefetching and close the underlying
+     * {@link Trajectory}.
+     */
+    public close(): void {
+        this.clear();
+        this._closed = true;
+        this._trajectory.close();
+    }
+
+    /**
+     * Close this cache and the corresponding trajectory when declared with
+     * `using`. This is the same as calling {@link CachedTrajectory.close}.
+     */
+    public [Symbol.dispose](): void {
+        this.close();
+    }
+
+    /** Read `step` from the trajectory in a new {@link Frame} */
+    private read(step: number, options: StrictOptions): Frame {
+        const frame = new Frame();
+        try {
+            this._trajectory.readStep(step, frame, options);
+        } catch (error) {
+            frame.delete();
+            throw error;
+        }
+        return frame;
+    }
+
+    /**
+     * Add `frame` (read in `strict` mode or not) to the cache, replacing any
+     * existing frame for this `step` and removing the least recently used
+     * frames if needed. Returns `false` if the frame is larger than the whole
+     * budget, in which case it is not added to the cache.
+     */
+    private store(step: number, frame: Frame, strict: boolean): boolean {
+        const memory = frameMemory(frame);
+        if (memory > this._budget) {
+            return false;
+        }
+
+        const previous = this._cache.get(step);
+        if (previous !== undefined) {
+            this._cache.delete(step);
+            this._memory -= previous.memory;
+            previous.frame.delete();
+        }
+
+        const iterator = this._cache.keys();
+        while (this._memory + memory > this._budget) {
+            const oldest = iterator.next();
+            if (oldest.done === true) {
+                break;
+            }
+            const entry = this._cache.get(oldest.value) as CacheEntry;
+            this._cache.delete(oldest.value);
+            this._memory -= entry.memory;
+            this._statistics.evicted += 1;
+            entry.frame.delete();
+        }
+
+        // cached frames are owned by the cache, and must survive the end of
+        // any scope active when calling readStep
+        untrack(frame);
+        this._cache.set(step, { frame, memory, strict });
+        this._memory += memory;
+        return true;
+    }
+
+    /**
+     * Start reading the steps following `step` in the playback direction,
+     * replacing any pending prefetching.
+     */
+    private schedulePrefetch(step: number): void {
+        this.cancelPrefetch();
+
+        if (this._prefetch !== 0 && this._nsteps === undefined) {
+            // the trajectory is only read, the number of steps does not change
+            this._nsteps = this.nsteps;
+        }
+
+        const nsteps = this._nsteps ?? 0;
+        for (let i = 1; i <= this._prefetch; i++) {
+            const next = step + i * this._direction;
+            if (next < 0 || next >= nsteps) {
+                break;
+            }
+            this._pending.push(next);
+        }
+        this.prefetchNext();
+    }
+
+    /** Prefetch the next pending step in a new task of the event loop */
+    private prefetchNext(): void {
+        const step = this._pending.shift();
+        if (step === undefined) {
+            return;
+        }
+
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+            if (!this._cache.has(step)) {
+                withInstance(this._instance, () => {
+                    const strict = currentInstance().strict;
+                    let frame;
+                    try {
+                        frame = this.read(step, { strict });
+                    } catch {
+                        // errors are reported if this step is requested
+                        return;
+                    }
+                    this._statistics.prefetched += 1;
+                    if (!this.store(step, frame, strict)) {
+                        frame.delete();
+                    }
+                });
+            }
+            this.prefetchNext();
+        }, 0);
+    }
+
+    /** Stop prefetching steps */
+    private cancelPrefetch(): void {
+        if (this._timer !== undefined) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+        this._pending = [];
+    }
+}
@@ -1,4 +1,4 @@
-import { CHFL_CELL } from './libchemfiles';
+import { CHFL_CELL, CHFL_PTR } from './libchemfiles';
 import {
     CHFL_CELL_INFINITE,
     CHFL_CELL_ORTHORHOMBIC,
@@ -46,11 +46,12 @@ export class UnitCell extends Pointer<CHFL_CELL, never> {
     /** @hidden
      * Create a new {@link UnitCell} from a raw pointer
      */
-    public static __from_ptr(ptr: CHFL_CELL, isConst: boolean): UnitCell {
-        const parent = new Pointer(ptr, isConst, 'UnitCell');
-        const cell = Object.create(UnitCell.prototype) as UnitCell;
-        Object.assign(cell, parent);
-        return cell;
+    public static __from_ptr(
+        ptr: CHFL_CELL,
+        isConst: boolean,
+        owner?: Pointer<CHFL_PTR, unknown>
+    ): UnitCell {
+        return Reflect.construct(Pointer, [ptr, isConst, 'UnitCell', owner], UnitCell) as UnitCell;
     }
 
     /**
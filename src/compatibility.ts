@@ -0,0 +1,127 @@
+import { formatsList } from './misc';
+
+import { CellShape } from './cell';
+import { splitFormat } from './compression';
+import { Frame } from './frame';
+import { scope } from './scope';
+
+/**
+ * Information which can be stored in a {@link Frame}, but is not supported by
+ * all formats. Most values correspond to fields of {@link FormatMetadata},
+ * `'atoms'` meaning atom names and types.
+ */
+export type FrameInformation =
+    | 'positions'
+    | 'velocities'
+    | 'unitCell'
+    | 'atoms'
+    | 'bonds'
+    | 'residues'
+    | 'properties';
+
+/** Human-readable description of all {@link FrameInformation} */
+const DESCRIPTIONS: Record<FrameInformation, string> = {
+    atoms: 'atom names and types',
+    bonds: 'bonds',
+    positions: 'positions',
+    properties: 'properties',
+    residues: 'residues',
+    unitCell: 'unit cell',
+    velocities: 'velocities',
+};
+
+// formats storing properties, which are not part of the format metadata
+const FRAME_PROPERTIES_FORMATS = ['CML', 'SDF', 'XYZ'];
+const ATOM_PROPERTIES_FORMATS = ['CML', 'XYZ'];
+
+/**
+ * Check which information in `frame` would be lost when writing it in the
+ * given `format`, using the corresponding {@link FormatMetadata}. Only
+ * information actually present in the frame is reported: a frame without
+ * bonds can be written to any format without losing bonds.
+ *
+ * Use the `checkCompatibility` option of {@link Trajectory.write} to run
+ * this check automatically and get a warning for all lost information.
+ *
+ * ```typescript doctest
+ * const frame = new chemfiles.Frame();
+ * frame.resize(2);
+ * frame.addBond(0, 1);
+ *
+ * assert.deepEqual(chemfiles.checkWriteCompatibility(frame, 'PDB'), []);
+ * assert.deepEqual(chemfiles.checkWriteCompatibility(frame, 'XYZ'), ['bonds']);
+ *
+ * frame.addVelocities();
+ * assert.deepEqual(chemfiles.checkWriteCompatibility(frame, 'PDB'), ['velocities']);
+ *
+ * frame.delete();
+ * ```
+ *
+ * @param  frame  frame to check
+ * @param  format name of the format to use when writing the frame
+ * @return        the list of information in `frame` that would be lost
+ */
+export function checkWriteCompatibility(frame: Frame, format: string): FrameInformation[] {
+    const name = splitFormat(format).name;
+    const metadata = formatsList().find((m) => m.name === name);
+    if (metadata === undefined) {
+        throw Error(`unknown format '${name}'`);
+    } else if (!metadata.write) {
+        throw Error(`the ${name} format does not support writing`);
+    }
+
+    return scope(() => {
+        const lost: FrameInformation[] = [];
+        const size = frame.size;
+        if (size !== 0 && !metadata.positions) {
+            lost.push('positions');
+        }
+
+        if (frame.velocities !== undefined && !metadata.velocities) {
+            lost.push('velocities');
+        }
+
+        if (frame.cell().shape !== CellShape.Infinite && !metadata.unitCell) {
+            lost.push('unitCell');
+        }
+
+        if (size !== 0 && !metadata.atoms) {
+            lost.push('atoms');
+        }
+
+        const topology = frame.topology();
+        if (topology.bonds.length !== 0 && !metadata.bonds) {
+            lost.push('bonds');
+        }
+
+        if (topology.residuesCount !== 0 && !metadata.residues) {
+            lost.push('residues');
+        }
+
+        let properties = false;
+        if (!FRAME_PROPERTIES_FORMATS.includes(name)) {
+            properties = frame.properties().length !== 0;
+        }
+        if (!ATOM_PROPERTIES_FORMATS.includes(name)) {
+            for (let i = 0; i < size && !properties; i++) {
+                const atom = frame.atom(i);
+                properties = atom.properties().length !== 0;
+                atom.delete();
+            }
+        }
+        if (properties) {
+            lost.push('properties');
+        }
+
+        return lost;
+    });
+}
+
+/** @hidden
+ * Get the warning message corresponding to losing `information` when writing
+ * a frame in the given `format`.
+ */
+export function lostInformationMessage(information: FrameInformation, format: string): string {
+    const name = splitFormat(format).name;
+    return `${DESCRIPTIONS[information]} will be lost when writing this frame in ${name} format`;
+}
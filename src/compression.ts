@@ -0,0 +1,73 @@
+/** Compression methods supported by chemfiles */
+export type Compression = 'GZ' | 'BZ2' | 'XZ';
+
+/** Options for in-memory trajectories */
+export interface MemoryOptions {
+    /**
+     * Compression of the data. When this is not given, the compression is
+     * taken from the format (e.g. `'XYZ / GZ'`), the extension of the file
+     * name (`.gz`, `.bz2` or `.xz`) or, for readers, from the first bytes of
+     * the data. Use `'none'` to disable compression detection.
+     */
+    compression?: Compression | 'none';
+}
+
+// bytes at the start of files using each compression method
+const MAGIC_BYTES: Record<Compression, number[]> = {
+    BZ2: [0x42, 0x5a, 0x68],
+    GZ: [0x1f, 0x8b],
+    XZ: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00],
+};
+
+// file name extensions associated with each compression method
+const EXTENSIONS: Record<Compression, string> = {
+    BZ2: '.bz2',
+    GZ: '.gz',
+    XZ: '.xz',
+};
+
+const COMPRESSIONS: Compression[] = ['GZ', 'BZ2', 'XZ'];
+
+/** @hidden
+ * Split a chemfiles format specification (e.g. `'XYZ / GZ'`) into the format
+ * name and the compression method, if any.
+ */
+export function splitFormat(format: string): { name: string; compression?: string } {
+    const [name, compression] = format.split('/').map((part) => part.trim());
+    return { compression, name };
+}
+
+/** @hidden
+ * Get the compression method used by `data`, by looking at the first bytes
+ */
+export function compressionFromData(data: Uint8Array): Compression | undefined {
+    return COMPRESSIONS.find((compression) =>
+        MAGIC_BYTES[compression].every((byte, i) => data[i] === byte)
+    );
+}
+
+/** @hidden
+ * Get the compression method corresponding to the extension of `filename`
+ */
+export function compressionFromFilename(filename: string): Compression | undefined {
+    return COMPRESSIONS.find((compression) => filename.endsWith(EXTENSIONS[compression]));
+}
+
+/** @hidden
+ * Get the format specification to give to chemfiles for the given `format`
+ * and `compression`. Compression given in `options` takes precedence over
+ * compression in `format`, which takes precedence over the compression
+ * returned by `detect`.
+ */
+export function compressedFormat(
+    format: string,
+    options: MemoryOptions,
+    detect: () => Compression | undefined
+): string {
+    const { name, compression } = splitFormat(format);
+    const actual = options.compression ?? compression ?? detect();
+    if (actual === undefined || actual === 'none') {
+        return name;
+    }
+    return `${name} / ${actual}`;
+}
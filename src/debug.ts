@@ -0,0 +1,159 @@
+/// <reference lib="es2021.weakref" />
+
+/** Information about a chemfiles object which was not yet deleted */
+export interface LiveObject {
+    /** Name of the class of this object (`'Frame'`, `'Atom'`, ...) */
+    className: string;
+    /** JavaScript stack trace at the time the object was created */
+    stack: string;
+}
+
+interface TrackedObject extends LiveObject {
+    object: WeakRef<object>;
+}
+
+let ENABLED = false;
+let REPORT_REGISTERED = false;
+let NEXT_ID = 0;
+const IDS = new WeakMap<object, number>();
+const TRACKED = new Map<number, TrackedObject>();
+
+/** @hidden
+ * Record the allocation of `object` if debug mode is enabled.
+ */
+export function trackAllocation(object: object, className: string): void {
+    if (!ENABLED) {
+        return;
+    }
+
+    // remove the first line ('Error'), this function and the Pointer
+    // constructor from the stack
+    const stack = (Error().stack ?? '').split('\n').slice(3).join('\n');
+
+    const id = NEXT_ID++;
+    IDS.set(object, id);
+    TRACKED.set(id, { className, object: new WeakRef(object), stack });
+}
+
+/** @hidden
+ * Record the release of `object` memory.
+ */
+export function trackRelease(object: object): void {
+    const id = IDS.get(object);
+    if (id !== undefined) {
+        IDS.delete(object);
+        TRACKED.delete(id);
+    }
+}
+
+/**
+ * Enable debug mode. In debug mode, chemfiles records the class and the
+ * stack trace of all objects allocated from now on, until they are deleted.
+ * This information can then be retrieved with {@link debug.liveObjects}, to
+ * find which part of the code forgets to call `delete()`.
+ *
+ * When running inside node, and unless `reportAtExit` is `false`, a report of
+ * all objects that were not deleted is sent to `console.warn` when the
+ * process exits.
+ *
+ * Debug mode makes object creation significantly slower, and should not be
+ * used in production.
+ *
+ * ```typescript doctest
+ * chemfiles.debug.enable({ reportAtExit: false });
+ *
+ * const frame = new chemfiles.Frame();
+ * const atom = new chemfiles.Atom('Zn');
+ * atom.delete();
+ *
+ * const live = chemfiles.debug.liveObjects();
+ * assert.equal(live.length, 1);
+ * assert.equal(live[0].className, 'Frame');
+ *
+ * frame.delete();
+ * assert.equal(chemfiles.debug.liveObjects().length, 0);
+ *
+ * chemfiles.debug.disable();
+ * ```
+ *
+ * @param options.reportAtExit report objects that were not deleted when the
+ *                             node process exits
+ */
+function enable(options: { reportAtExit?: boolean } = {}): void {
+    if (typeof WeakRef === 'undefined') {
+        throw Error('debug mode requires WeakRef support in the JavaScript engine');
+    }
+
+    ENABLED = true;
+    const IS_NODE =
+        typeof process === 'object' &&
+        typeof process.versions === 'object' &&
+        typeof process.versions.node === 'string';
+
+    if (options.reportAtExit !== false && IS_NODE && !REPORT_REGISTERED) {
+        REPORT_REGISTERED = true;
+        process.on('exit', () => {
+            if (ENABLED) {
+                reportLeaks();
+            }
+        });
+    }
+}
+
+/**
+ * Disable debug mode, and forget about all objects recorded until now.
+ */
+function disable(): void {
+    ENABLED = false;
+    TRACKED.clear();
+}
+
+/**
+ * Get the list of objects allocated since debug mode was enabled with
+ * {@link debug.enable}, and which were neither deleted nor garbage collected.
+ *
+ * @return information about all objects which are still alive, in the order
+ *         of creation
+ */
+function liveObjects(): LiveObject[] {
+    const result = [];
+    for (const [id, tracked] of TRACKED) {
+        if (tracked.object.deref() === undefined) {
+            // the object was garbage collected, and its memory released
+            TRACKED.delete(id);
+        } else {
+            result.push({ className: tracked.className, stack: tracked.stack });
+        }
+    }
+    return result;
+}
+
+/**
+ * Send a report of all objects that are still alive (see
+ * {@link debug.liveObjects}) to `console.warn`. Nothing is reported if all
+ * objects have been deleted.
+ */
+function reportLeaks(): void {
+    const live = liveObjects();
+    if (live.length === 0) {
+        return;
+    }
+
+    const report = [`[chemfiles] ${live.length} object(s) were not deleted:`];
+    for (const object of live) {
+        report.push(`${object.className} allocated\n${object.stack}`);
+    }
+    // eslint-disable-next-line no-console
+    console.warn(report.join('\n'));
+}
+
+/**
+ * Debugging utilities, used to find chemfiles objects which are never deleted.
+ * See {@link debug.enable} for more information.
+ */
+export const debug = {
+    disable,
+    enable,
+    liveObjects,
+    reportLeaks,
+};
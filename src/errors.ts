@@ -0,0 +1,180 @@
+import {
+    CHFL_CONFIGURATION_ERROR,
+    CHFL_FILE_ERROR,
+    CHFL_FORMAT_ERROR,
+    CHFL_GENERIC_ERROR,
+    CHFL_MEMORY_ERROR,
+    CHFL_OUT_OF_BOUNDS,
+    CHFL_PROPERTY_ERROR,
+    CHFL_SELECTION_ERROR,
+    chfl_status,
+} from './libchemfiles';
+import { currentInstance, lastError } from './misc';
+
+import { Warning } from './warnings';
+
+/**
+ * Base class for all errors coming from the chemfiles library.
+ *
+ * ```typescript doctest
+ * try {
+ *     const selection = new chemfiles.Selection('name == ');
+ * } catch (error) {
+ *     assert.instanceOf(error, chemfiles.ChemfilesError);
+ *     assert.instanceOf(error, chemfiles.SelectionError);
+ *     assert.equal(error.operation, 'chfl_selection');
+ * }
+ * ```
+ */
+export class ChemfilesError extends Error {
+    /** Status code returned by the chemfiles C API for this error */
+    public readonly status: number;
+    /**
+     * Name of the chemfiles C API function which failed, for example
+     * `chfl_trajectory_read`
+     */
+    public readonly operation: string;
+
+    /**
+     * Create a new error with the given `message`, `status` code and failing
+     * `operation`.
+     */
+    constructor(message: string, status: number, operation: string) {
+        super(message);
+        // restore the prototype chain, which is broken by extending Error
+        // when targeting ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'ChemfilesError';
+        this.status = status;
+        this.operation = operation;
+    }
+}
+
+/** Error related to memory allocation */
+export class MemoryError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_MEMORY_ERROR, operation);
+        this.name = 'MemoryError';
+    }
+}
+
+/** Error related to files: missing file, wrong permissions, invalid mode, ... */
+export class FileError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_FILE_ERROR, operation);
+        this.name = 'FileError';
+    }
+}
+
+/** Error related to file formats: unknown format, badly formatted file, ... */
+export class FormatError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_FORMAT_ERROR, operation);
+        this.name = 'FormatError';
+    }
+}
+
+/** Error in the parsing or the evaluation of a selection */
+export class SelectionError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_SELECTION_ERROR, operation);
+        this.name = 'SelectionError';
+    }
+}
+
+/** Error in chemfiles configuration files */
+export class ConfigurationError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_CONFIGURATION_ERROR, operation);
+        this.name = 'ConfigurationError';
+    }
+}
+
+/** Error from out of bounds indexing */
+export class OutOfBoundsError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_OUT_OF_BOUNDS, operation);
+        this.name = 'OutOfBoundsError';
+    }
+}
+
+/** Error related to properties: missing property, wrong property type, ... */
+export class PropertyError extends ChemfilesError {
+    constructor(message: string, operation: string) {
+        super(message, CHFL_PROPERTY_ERROR, operation);
+        this.name = 'PropertyError';
+    }
+}
+
+/**
+ * Error created from warnings emitted by chemfiles when running in strict
+ * mode. See {@link setStrictMode}.
+ */
+export class WarningError extends ChemfilesError {
+    /** All the warnings emitted during the operation */
+    public readonly warnings: Warning[];
+
+    constructor(warnings: Warning[], operation: string) {
+        super(warnings[0].message, CHFL_GENERIC_ERROR, operation);
+        this.name = 'WarningError';
+        this.warnings = warnings;
+    }
+}
+
+/** @hidden
+ * Create the error corresponding to the given `status`
+ */
+export function createError(status: number, message: string, operation: string): ChemfilesError {
+    switch (status) {
+        case CHFL_MEMORY_ERROR:
+            return new MemoryError(message, operation);
+        case CHFL_FILE_ERROR:
+            return new FileError(message, operation);
+        case CHFL_FORMAT_ERROR:
+            return new FormatError(message, operation);
+        case CHFL_SELECTION_ERROR:
+            return new SelectionError(message, operation);
+        case CHFL_CONFIGURATION_ERROR:
+            return new ConfigurationError(message, operation);
+        case CHFL_OUT_OF_BOUNDS:
+            return new OutOfBoundsError(message, operation);
+        case CHFL_PROPERTY_ERROR:
+            return new PropertyError(message, operation);
+        default:
+            return new ChemfilesError(message, status, operation);
+    }
+}
+
+/** @hidden
+ * Create the error corresponding to the given `status`, returned by the last
+ * chemfiles function called.
+ */
+export function statusError(status: chfl_status): ChemfilesError {
+    const operation = currentInstance().operation;
+    return createError(status, lastError(), operation);
+}
+
+/** @hidden
+ * Create the error corresponding to the last chemfiles function returning a
+ * NULL pointer.
+ *
+ * The C API does not give a status code for functions returning pointers. If
+ * given, `findStatus` is called after the error message was retrieved to get
+ * the status, otherwise the status is chosen from the function.
+ */
+export function nullPointerError(findStatus?: () => number): ChemfilesError {
+    const operation = currentInstance().operation;
+    const message = lastError();
+
+    let status: number = CHFL_MEMORY_ERROR;
+    if (findStatus !== undefined) {
+        status = findStatus();
+    } else if (operation.startsWith('chfl_trajectory')) {
+        status = CHFL_FILE_ERROR;
+    } else if (operation === 'chfl_selection') {
+        status = CHFL_SELECTION_ERROR;
+    } else if (/_from_(frame|topology)$|_for_atom$/.test(operation)) {
+        status = CHFL_OUT_OF_BOUNDS;
+    }
+    return createError(status, message, operation);
+}
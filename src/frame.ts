@@ -1,6 +1,6 @@
 import * as sizes from '../lib/wasm-sizes';
 import { CHFL_FRAME, chfl_bond_order, chfl_vector3d } from './libchemfiles';
-import { lib } from './misc';
+import { Instance, lib, withInstance } from './misc';
 
 import { Atom } from './atom';
 import { Pointer } from './c_ptr';
@@ -12,6 +12,49 @@ import { PropertyType, createProperty, getProperty } from './property';
 import { getValue, stackAlloc, stackAutoclean } from './stack';
 import { Vector3D, assert, check, isUnsignedInteger } from './utils';
 
+/** Location of an array of Vector3D in WASM memory */
+interface Array3DLocation {
+    ptr: chfl_vector3d;
+    length: number;
+}
+
+/** Any array-like container of numbers that can be written to */
+type WritableNumberArray = { [i: number]: number };
+
+/**
+ * Prototype of {@link Array3D}, implementing indexed access (`array[i]`) for
+ * backward compatibility. Since this is in the prototype chain, it is only
+ * used for properties not defined in the {@link Array3D} class, and does not
+ * slow down the other methods.
+ */
+const INDEXED_ACCESS = new Proxy(Object.create(Object.prototype) as object, {
+    get: (target: object, key: string | symbol, receiver: Array3D) => {
+        if (typeof key === 'string') {
+            const i = Number(key);
+            if (isUnsignedInteger(i)) {
+                if (i >= receiver.length) {
+                    return undefined;
+                }
+                return receiver.array.subarray(3 * i, 3 * i + 3);
+            }
+        }
+        return Reflect.get(target, key, receiver) as unknown;
+    },
+    set: (target: object, key: string | symbol, value: ArrayLike<number>, receiver: Array3D) => {
+        const i = typeof key === 'string' ? Number(key) : NaN;
+        if (!isUnsignedInteger(i)) {
+            // this creates a new property on the receiver, used to initialize
+            // Array3D members in the constructor
+            return Reflect.set(target, key, value, receiver);
+        } else if (i >= receiver.length || value.length !== 3) {
+            return false;
+        } else {
+            receiver.array.set(value, 3 * i);
+            return true;
+        }
+    },
+});
+
 /**
  * An Array of Vector3d allowing direct access into WASM memory. It can be
  * indexed and iterated over.
@@ -35,64 +78,305 @@ import { Vector3D, assert, check, isUnsignedInteger } from './utils';
  * positions[2] = [2, 2, 2];
  * assert.arrayEqual(positions[2], [2, 2, 2]);
  *
- * // iteration over all the values
+ * // iteration over all the values, as views in WASM memory
  * let total = 0;
  * for (const pos of positions) {
  *     total += pos[0];
  * }
  * assert.equal(total, 4);
  * ```
+ *
+ * Indexing and iteration create a new view in the memory for each vector. For
+ * performance-sensitive code, prefer the accessor functions, or the direct
+ * access to the underlying data with {@link Array3D.array}:
+ *
+ * ```typescript doctest
+ * const frame = new chemfiles.Frame();
+ * frame.resize(2);
+ * const positions = frame.positions;
+ *
+ * positions.set(1, 3, 4, 5);
+ * assert.equal(positions.getX(1), 3);
+ * assert.equal(positions.getY(1), 4);
+ * assert.equal(positions.getZ(1), 5);
+ *
+ * // re-use the same vector for multiple accesses
+ * const vector = [0, 0, 0];
+ * positions.get(1, vector);
+ * assert.deepEqual(vector, [3, 4, 5]);
+ *
+ * // raw data, containing [x0, y0, z0, x1, y1, z1, ...]
+ * const data = positions.array;
+ * assert.equal(data.length, 6);
+ * assert.equal(data[4], 4);
+ *
+ * // iteration without any allocation
+ * let total = 0;
+ * positions.forEach((x, y, z) => {
+ *     total += x + y + z;
+ * });
+ * assert.equal(total, 12);
+ *
+ * // iteration re-using the same vector for all steps
+ * for (const vector of positions.vectors()) {
+ *     total += vector[0];
+ * }
+ * assert.equal(total, 15);
+ *
+ * frame.delete();
+ * ```
  */
-export interface Array3D {
-    readonly length: number;
+export class Array3D {
     /** @hidden */
     [i: number]: Vector3D;
-    /** @hidden */
-    [Symbol.iterator](): Generator<Vector3D, void, void>;
+
+    /** Number of vectors in this array */
+    public readonly length: number;
+
+    private _frame: Frame;
+    private _name: string;
+    private _locate: () => Array3DLocation | undefined;
+    private _ptr: chfl_vector3d;
+    private _generation: number;
+    private _buffer: Float64Array;
+
+    /** @hidden
+     * Create a new Array3D using data from the given `frame`, starting at the
+     * `initial` location. `locate` should return the current location of the
+     * data, or `undefined` if the data is no longer available.
+     *
+     * The WASM memory can be re-allocated when it grows, and the frame data
+     * can be re-allocated when the frame is modified. In the first case, the
+     * view is re-created transparently. In the second case, the view is still
+     * valid if the data did not move; or an error is thrown.
+     */
+    constructor(
+        frame: Frame,
+        name: string,
+        initial: Array3DLocation,
+        locate: () => Array3DLocation | undefined
+    ) {
+        this.length = initial.length;
+        this._frame = frame;
+        this._name = name;
+        this._locate = locate;
+        this._ptr = initial.ptr;
+        this._generation = frame.__generation;
+        this._buffer = this.createBuffer();
+    }
+
+    /** @hidden
+     * get the chemfiles instance the data of this array belongs to
+     */
+    get __instance(): Instance {
+        return this._frame.__instance;
+    }
+
+    /**
+     * Get direct access to the underlying data, as a `Float64Array` of size
+     * `3 * length` containing `[x0, y0, z0, x1, y1, z1, ...]`.
+     *
+     * Modifying the returned array modifies the corresponding data in the
+     * frame. The returned array is only valid until the next chemfiles
+     * function call, since any call can re-allocate WASM memory. Use
+     * {@link Frame.getPositions} or {@link Frame.getVelocities} to get a copy
+     * of the data instead.
+     */
+    get array(): Float64Array {
+        // Array3D methods are not bound to the chemfiles instance of the
+        // frame (see createChemfiles) to keep them fast, the instance is
+        // only activated when the data must be located again
+        const instance = this._frame.__instance;
+        if (this._frame.__generation !== this._generation) {
+            const current = withInstance(instance, this._locate);
+            if (
+                current === undefined ||
+                current.ptr !== this._ptr ||
+                current.length !== this.length
+            ) {
+                throw Error(
+                    `the ${this._name} of this Frame changed since this Array3D was created, ` +
+                        `use Frame.${this._name} to get a new one`
+                );
+            }
+            this._generation = this._frame.__generation;
+        }
+
+        if (this._buffer.buffer !== instance.lib?.HEAPF64.buffer) {
+            // WASM memory grew, and the old buffer was detached
+            this._buffer = withInstance(instance, () => this.createBuffer());
+        }
+        return this._buffer;
+    }
+
+    /**
+     * Get the x component of the vector at the given `index`
+     *
+     * @param index index of the vector in this array
+     */
+    public getX(index: number): number {
+        this.checkIndex(index);
+        return this.array[3 * index];
+    }
+
+    /**
+     * Get the y component of the vector at the given `index`
+     *
+     * @param index index of the vector in this array
+     */
+    public getY(index: number): number {
+        this.checkIndex(index);
+        return this.array[3 * index + 1];
+    }
+
+    /**
+     * Get the z component of the vector at the given `index`
+     *
+     * @param index index of the vector in this array
+     */
+    public getZ(index: number): number {
+        this.checkIndex(index);
+        return this.array[3 * index + 2];
+    }
+
+    /**
+     * Get a copy of the vector at the given `index`. If `out` is given, the
+     * vector is written in `out`, avoiding any allocation.
+     *
+     * @param  index index of the vector in this array
+     * @param  out   array where the vector should be written
+     * @return       the vector, or `out` if it was given
+     */
+    public get(index: number): Vector3D;
+    public get<T extends WritableNumberArray>(index: number, out: T): T;
+    public get(
+        index: number,
+        out: WritableNumberArray = [0, 0, 0]
+    ): Vector3D | WritableNumberArray {
+        this.checkIndex(index);
+        const array = this.array;
+        out[0] = array[3 * index];
+        out[1] = array[3 * index + 1];
+        out[2] = array[3 * index + 2];
+        return out;
+    }
+
+    /**
+     * Set the vector at the given `index` to `[x, y, z]`.
+     *
+     * @param index index of the vector in this array
+     * @param x     new x component of the vector
+     * @param y     new y component of the vector
+     * @param z     new z component of the vector
+     */
+    public set(index: number, x: number, y: number, z: number): void {
+        this.checkIndex(index);
+        const array = this.array;
+        array[3 * index] = x;
+        array[3 * index + 1] = y;
+        array[3 * index + 2] = z;
+    }
+
+    /**
+     * Call `callback` for all vectors in this array, with the three components
+     * of the vector and its index. This does not allocate any memory.
+     *
+     * @param callback function to call for each vector
+     */
+    public forEach(callback: (x: number, y: number, z: number, index: number) => void): void {
+        for (let i = 0; i < this.length; i++) {
+            // re-validate the data at each step, since callback might modify it
+            const array = this.array;
+            callback(array[3 * i], array[3 * i + 1], array[3 * i + 2], i);
+        }
+    }
+
+    /**
+     * Iterate over all the vectors in this array, without allocating memory
+     * for each vector. Contrary to the default iterator, the same `Vector3D`
+     * is used for all the steps of the iteration, and overwritten with the
+     * values of the next vector at each step: it should be copied to keep
+     * the values around. Modifying this vector does not modify the data in
+     * the frame, use {@link Array3D.set} instead.
+     *
+     * ```typescript
+     * let maxX = -Infinity;
+     * for (const [x] of frame.positions.vectors()) {
+     *     maxX = Math.max(maxX, x);
+     * }
+     * ```
+     */
+    public *vectors(): Generator<Vector3D, void, void> {
+        const vector: Vector3D = [0, 0, 0];
+        for (let i = 0; i < this.length; i++) {
+            // re-validate the data at each step, since the caller might modify it
+            const array = this.array;
+            vector[0] = array[3 * i];
+            vector[1] = array[3 * i + 1];
+            vector[2] = array[3 * i + 2];
+            yield vector;
+        }
+    }
+
+    /**
+     * Iterate over all the vectors in this array. Each vector is a view in
+     * WASM memory, with the same validity as {@link Array3D.array}: modifying
+     * it modifies the data in the frame. Use {@link Array3D.vectors} or
+     * {@link Array3D.forEach} to iterate without allocating a view for each
+     * vector.
+     */
+    public *[Symbol.iterator](): Generator<Vector3D, void, void> {
+        for (let i = 0; i < this.length; i++) {
+            // re-validate the data at each step, since the caller might modify it
+            yield this.array.subarray(3 * i, 3 * i + 3) as unknown as Vector3D;
+        }
+    }
+
+    private createBuffer(): Float64Array {
+        const start = this._ptr / sizes.SIZEOF_DOUBLE;
+        return lib.HEAPF64.subarray(start, start + 3 * this.length);
+    }
+
+    private checkIndex(index: number): void {
+        if (!isUnsignedInteger(index) || index >= this.length) {
+            throw Error(
+                `out of bounds index in Array3D: we have ${this.length} elements, but the index is ${index}`
+            );
+        }
+    }
 }
 
+Object.setPrototypeOf(Array3D.prototype, INDEXED_ACCESS);
+
 /**
- * Create an object obeying the Array3D interface using data from the given
- * pointer and length.
+ * Copy all the values in `array` to `out`, or to a new `Float64Array` if `out`
+ * is `undefined`.
  */
-function createArray3D(ptr: chfl_vector3d, length: number): Array3D {
-    const start = ptr / sizes.SIZEOF_DOUBLE;
-    const buffer = lib.HEAPF64.subarray(start, start + 3 * length);
-    const iterator = function* () {
-        for (let i = 0; i < length; i++) {
-            yield buffer.subarray(3 * i, 3 * i + 3);
-        }
-    };
-
-    const object = {
-        __buffer: buffer,
-        length: length,
-        [Symbol.iterator]: iterator,
-    };
-
-    return new Proxy(object, {
-        get: (self: typeof object, key: string | symbol) => {
-            if (key in self) {
-                return self[key as keyof typeof object];
-            } else {
-                const i = Number(key);
-                if (!isUnsignedInteger(i)) {
-                    return undefined;
-                } else {
-                    return self.__buffer.subarray(3 * i, 3 * i + 3);
-                }
-            }
-        },
-        set: (self: typeof object, key: string | symbol, value: ArrayLike<number>) => {
-            const i = Number(key);
-            if (!isUnsignedInteger(i) || value.length !== 3) {
-                return false;
-            } else {
-                self.__buffer.set(value, 3 * i);
-                return true;
-            }
-        },
-    }) as Array3D;
+function copyFromArray3D(
+    array: Array3D,
+    out?: Float64Array | Float32Array
+): Float64Array | Float32Array {
+    const data = array.array;
+    if (out === undefined) {
+        return data.slice();
+    }
+
+    assert(
+        out.length >= data.length,
+        `output array is too small: expected at least ${data.length} values, got ${out.length}`
+    );
+    out.set(data);
+    return out;
+}
+
+/** Copy all the values from `data` to the given `array` */
+function copyToArray3D(array: Array3D, data: ArrayLike<number>): void {
+    const values = array.array;
+    assert(
+        data.length === values.length,
+        `wrong size for input array: expected ${values.length} values, got ${data.length}`
+    );
+    values.set(data);
 }
 
 /**
@@ -128,10 +412,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      */
     public static clone(frame: Frame): Frame {
         const ptr = lib._chfl_frame_copy(frame.const_ptr);
-        const parent = new Pointer(ptr, false, 'Frame');
-        const copy = Object.create(Frame.prototype) as Frame;
-        Object.assign(copy, parent);
-        return copy;
+        return Reflect.construct(Pointer, [ptr, false, 'Frame'], Frame) as Frame;
     }
 
     /**
@@ -190,7 +471,8 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      *
      * This function increase the reference count of this frame, memory will not
      * be released before the cell is itself released with
-     * {@link UnitCell.delete}.
+     * {@link UnitCell.delete}. The cell can not be used after this frame is
+     * deleted, resized, or filled with new data by {@link Trajectory.read}.
      *
      * ```typescript doctest
      * const frame = new chemfiles.Frame();
@@ -211,7 +493,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      */
     public cell(): UnitCell {
         const ptr = lib._chfl_cell_from_frame(this.ptr);
-        return UnitCell.__from_ptr(ptr, false);
+        return UnitCell.__from_ptr(ptr, false, this);
     }
 
     /**
@@ -241,10 +523,9 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      * Get read and write access to the positions of all atoms in this
      * {@link Frame}.
      *
-     * If the frame is resized (by writing to it, calling {@link Frame.resize}
-     * {@link Frame.addAtom} or {@link Frame.remove}), the array is invalidated,
-     * and accessing it can produce random results, even in unrelated parts of
-     * the code
+     * If the frame is resized (by reading into it, calling {@link Frame.resize}
+     * {@link Frame.addAtom} or {@link Frame.remove}), the array may be
+     * invalidated, in which case accessing it will throw an error.
      *
      * ```typescript doctest
      * const frame = new chemfiles.Frame();
@@ -271,15 +552,19 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      * @return an array-like object for accessing positions
      */
     get positions(): Array3D {
-        return stackAutoclean(() => {
-            const size = stackAlloc('uint64_t');
-            const positions = lib.stackAlloc(sizes.SIZEOF_VOID_P) as chfl_vector3d;
-            check(lib._chfl_frame_positions(this.ptr, positions, size.ptr));
+        const locate = () => {
+            return stackAutoclean(() => {
+                const size = stackAlloc('uint64_t');
+                const positions = lib.stackAlloc(sizes.SIZEOF_VOID_P) as chfl_vector3d;
+                check(lib._chfl_frame_positions(this.ptr, positions, size.ptr));
 
-            const ptr = lib.getValue(positions, '*') as chfl_vector3d;
-            const length = getValue(size);
-            return createArray3D(ptr, length);
-        });
+                const ptr = lib.getValue(positions, '*') as chfl_vector3d;
+                const length = getValue(size);
+                return { length, ptr };
+            });
+        };
+
+        return new Array3D(this, 'positions', locate(), locate);
     }
 
     /**
@@ -290,10 +575,9 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      * returns `undefined`. You can add velocities to a frame with
      * {@link Frame.addVelocities}.
      *
-     * If the frame is resized (by writing to it, calling {@link Frame.resize}
-     * {@link Frame.addAtom} or {@link Frame.remove}), the array is invalidated,
-     * and accessing it can produce random results, even in unrelated parts of
-     * the code.
+     * If the frame is resized (by reading into it, calling {@link Frame.resize}
+     * {@link Frame.addAtom} or {@link Frame.remove}), the array may be
+     * invalidated, in which case accessing it will throw an error.
      *
      * ```typescript doctest
      * const frame = new chemfiles.Frame();
@@ -323,21 +607,149 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      * @return an array-like object for accessing velocities
      */
     get velocities(): Array3D | undefined {
-        return stackAutoclean(() => {
-            const hasVelocities = stackAlloc('bool');
-            check(lib._chfl_frame_has_velocities(this.const_ptr, hasVelocities.ptr));
-            if (!getValue(hasVelocities)) {
-                return undefined;
-            }
+        const locate = () => {
+            return stackAutoclean(() => {
+                const hasVelocities = stackAlloc('bool');
+                check(lib._chfl_frame_has_velocities(this.const_ptr, hasVelocities.ptr));
+                if (!getValue(hasVelocities)) {
+                    return undefined;
+                }
 
-            const size = stackAlloc('uint64_t');
-            const positions = lib.stackAlloc(sizes.SIZEOF_VOID_P) as chfl_vector3d;
-            check(lib._chfl_frame_velocities(this.ptr, positions, size.ptr));
+                const size = stackAlloc('uint64_t');
+                const velocities = lib.stackAlloc(sizes.SIZEOF_VOID_P) as chfl_vector3d;
+                check(lib._chfl_frame_velocities(this.ptr, velocities, size.ptr));
 
-            const ptr = lib.getValue(positions, '*') as chfl_vector3d;
-            const length = getValue(size);
-            return createArray3D(ptr, length);
-        });
+                const ptr = lib.getValue(velocities, '*') as chfl_vector3d;
+                const length = getValue(size);
+                return { length, ptr };
+            });
+        };
+
+        const initial = locate();
+        if (initial === undefined) {
+            return undefined;
+        }
+        return new Array3D(this, 'velocities', initial, locate);
+    }
+
+    /**
+     * Get a copy of the positions of all atoms in this {@link Frame}, as a
+     * flat array containing `[x0, y0, z0, x1, y1, z1, ...]`.
+     *
+     * If `out` is given, the positions are written in `out` (converting them to
+     * single precision if `out` is a `Float32Array`), which must have space
+     * for at least `3 * frame.size` values. Otherwise a new `Float64Array` is
+     * allocated.
+     *
+     * ```typescript doctest
+     * const frame = new chemfiles.Frame();
+     * frame.resize(2);
+     * frame.positions[1] = [1, 2, 3];
+     *
+     * const positions = frame.getPositions();
+     * assert.deepEqual(Array.from(positions), [0, 0, 0, 1, 2, 3]);
+     *
+     * // single precision copy, for example to send to WebGL
+     * const float32 = frame.getPositions(new Float32Array(6));
+     * assert.equal(float32[5], 3);
+     *
+     * frame.delete();
+     * ```
+     *
+     * @param  out array in which the positions should be written
+     * @return     the positions, or `out` if it was given
+     */
+    public getPositions(): Float64Array;
+    public getPositions<T extends Float64Array | Float32Array>(out: T): T;
+    public getPositions(out?: Float64Array | Float32Array): Float64Array | Float32Array {
+        return copyFromArray3D(this.positions, out);
+    }
+
+    /**
+     * Set the positions of all atoms in this {@link Frame} from a flat array
+     * containing `[x0, y0, z0, x1, y1, z1, ...]`. `data` must contain exactly
+     * `3 * frame.size` values.
+     *
+     * ```typescript doctest
+     * const frame = new chemfiles.Frame();
+     * frame.resize(2);
+     *
+     * frame.setPositions(new Float32Array([1, 2, 3, 4, 5, 6]));
+     * assert.arrayEqual(frame.positions[1], [4, 5, 6]);
+     *
+     * frame.delete();
+     * ```
+     *
+     * @param data new positions for all atoms
+     */
+    public setPositions(data: ArrayLike<number>): void {
+        copyToArray3D(this.positions, data);
+    }
+
+    /**
+     * Get a copy of the velocities of all atoms in this {@link Frame}, as a
+     * flat array containing `[vx0, vy0, vz0, vx1, vy1, vz1, ...]`, or
+     * `undefined` if the frame does not contain velocities.
+     *
+     * If `out` is given, the velocities are written in `out` (converting them
+     * to single precision if `out` is a `Float32Array`), which must have space
+     * for at least `3 * frame.size` values. Otherwise a new `Float64Array` is
+     * allocated.
+     *
+     * ```typescript doctest
+     * const frame = new chemfiles.Frame();
+     * frame.resize(2);
+     * assert.equal(frame.getVelocities(), undefined);
+     *
+     * frame.addVelocities();
+     * frame.velocities[1] = [1, 2, 3];
+     * assert.deepEqual(Array.from(frame.getVelocities()), [0, 0, 0, 1, 2, 3]);
+     *
+     * frame.delete();
+     * ```
+     *
+     * @param  out array in which the velocities should be written
+     * @return     the velocities, or `out` if it was given
+     */
+    public getVelocities(): Float64Array | undefined;
+    public getVelocities<T extends Float64Array | Float32Array>(out: T): T | undefined;
+    public getVelocities(
+        out?: Float64Array | Float32Array
+    ): Float64Array | Float32Array | undefined {
+        const velocities = this.velocities;
+        if (velocities === undefined) {
+            return undefined;
+        }
+        return copyFromArray3D(velocities, out);
+    }
+
+    /**
+     * Set the velocities of all atoms in this {@link Frame} from a flat array
+     * containing `[vx0, vy0, vz0, vx1, vy1, vz1, ...]`. `data` must contain
+     * exactly `3 * frame.size` values. Velocities are added to the frame if
+     * they are not already present.
+     *
+     * ```typescript doctest
+     * const frame = new chemfiles.Frame();
+     * frame.resize(2);
+     *
+     * frame.setVelocities([1, 2, 3, 4, 5, 6]);
+     * assert.arrayEqual(frame.velocities[0], [1, 2, 3]);
+     *
+     * frame.delete();
+     * ```
+     *
+     * @param data new velocities for all atoms
+     */
+    public setVelocities(data: ArrayLike<number>): void {
+        // check the size before adding velocities to the frame
+        const size = this.size;
+        assert(
+            data.length === 3 * size,
+            `wrong size for input array: expected ${3 * size} values, got ${data.length}`
+        );
+        this.addVelocities();
+        copyToArray3D(this.velocities as Array3D, data);
     }
 
     /**
@@ -384,6 +796,9 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      *
      * This function increase the reference count of this frame, memory will not
      * be released before the atom is itself released with {@link Atom.delete}.
+     * The atom can not be used after this frame is deleted, after atoms or
+     * residues are added or removed, or after the frame is filled with new
+     * data by {@link Trajectory.read}.
      *
      * ```typescript doctest
      * const frame = new chemfiles.Frame();
@@ -401,7 +816,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
     public atom(index: number): Atom {
         assert(isUnsignedInteger(index), 'atom index should be a positive integer');
         const ptr = lib._chfl_atom_from_frame(this.ptr, index, 0);
-        return Atom.__from_ptr(ptr, false);
+        return Atom.__from_ptr(ptr, false, this);
     }
 
     /**
@@ -441,6 +856,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
                 const vel = stackAlloc('chfl_vector3d', { initial: velocities });
                 check(lib._chfl_frame_add_atom(this.ptr, atom.const_ptr, pos.ptr, vel.ptr));
             }
+            this.__invalidate_borrowed();
         });
     }
 
@@ -477,6 +893,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
     public remove(index: number): void {
         assert(isUnsignedInteger(index), 'atom index should be a positive integer');
         check(lib._chfl_frame_remove(this.ptr, index, 0));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -507,6 +924,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
     public resize(size: number): void {
         assert(isUnsignedInteger(size), 'size should be a positive integer');
         check(lib._chfl_frame_resize(this.ptr, size, 0));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -514,7 +932,9 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      *
      * This function increase the reference count of this frame, memory will not
      * be released before the topology is itself released with
-     * {@link Topology.delete}.
+     * {@link Topology.delete}. The topology can not be used after this frame
+     * is deleted, after atoms or residues are added or removed, or after the
+     * frame is filled with new data by {@link Trajectory.read}.
      *
      * Changes to the topology are possible through {@link Frame.addBond},
      * {@link Frame.removeBond} and {@link Frame.addResidue}.
@@ -535,7 +955,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      */
     public topology(): Topology {
         const ptr = lib._chfl_topology_from_frame(this.ptr);
-        return Topology.__from_ptr(ptr, true);
+        return Topology.__from_ptr(ptr, true, this);
     }
 
     /**
@@ -562,6 +982,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      */
     public setTopology(topology: Topology): void {
         check(lib._chfl_frame_set_topology(this.ptr, topology.const_ptr));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -724,6 +1145,7 @@ export class Frame extends Pointer<CHFL_FRAME, never> {
      */
     public addResidue(residue: Residue): void {
         check(lib._chfl_frame_add_residue(this.ptr, residue.const_ptr));
+        this.__invalidate_borrowed();
     }
     /**
      * Get the distance (in Ångströms) between the atoms at indexes `i` and
@@ -0,0 +1,251 @@
+import { guessFormat } from './misc';
+
+import { compressionFromData } from './compression';
+import { withWarnings } from './warnings';
+
+// number of bytes at the beginning of the data used to guess the format
+const HEADER_SIZE = 4096;
+
+/** Beginning of the data, as bytes, text and lines of text */
+interface Header {
+    bytes: Uint8Array;
+    text: string;
+    lines: string[];
+}
+
+/**
+ * Function giving the confidence that a {@link Header} comes from a given
+ * format, from 0 (this is not the format) to 1 (this is the format).
+ */
+type Detector = (header: Header) => number;
+
+/** Read a 32-bit integer at the start of `bytes` */
+function int32(bytes: Uint8Array, littleEndian: boolean): number {
+    if (bytes.length < 4) {
+        return NaN;
+    }
+    return new DataView(bytes.buffer, bytes.byteOffset, 4).getInt32(0, littleEndian);
+}
+
+/** Is this the header of a NetCDF file? */
+function isNetCDF({ bytes, text }: Header): boolean {
+    return text.slice(0, 3) === 'CDF' && (bytes[3] === 1 || bytes[3] === 2);
+}
+
+/** Does `text` start with `prefix`, ignoring the case? */
+function hasPrefix(text: string, prefix: string): boolean {
+    return text.slice(0, prefix.length).toUpperCase() === prefix.toUpperCase();
+}
+
+// atom lines in XYZ files: name and position
+const XYZ_ATOM = /^\s*[A-Za-z][\w-]*(\s+[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?){3}(\s|$)/;
+// atom lines in Tinker files: index, name, position and type
+const TINKER_ATOM = /^\s*\d+\s+[A-Za-z][\w-]*(\s+[-+]?\d*\.?\d+([eE][-+]?\d+)?){3}\s+\d+/;
+// atom lines in GRO files: residue, atom name, index and position
+const GRO_ATOM = /^[\s\d]{5}.{10}[\s\d]{5}(\s*-?\d+\.\d+){3}/;
+// names of the most common PDB records
+const PDB_RECORDS = (
+    'HEADER TITLE COMPND SOURCE KEYWDS EXPDTA AUTHOR REVDAT JRNL REMARK SEQRES HET HETNAM ' +
+    'FORMUL HELIX SHEET SSBOND CRYST1 ORIGX1 ORIGX2 ORIGX3 SCALE1 SCALE2 SCALE3 MODEL ATOM ' +
+    'HETATM ANISOU TER ENDMDL CONECT MASTER END'
+).split(' ');
+// one token of a SMILES string: organic subset atoms, bracket atoms, bonds,
+// branches and ring closures
+const SMILES = /^([BCNOPSFI]|Cl|Br|[bcnops]|\[[^\]\s]+\]|[\d@+\-=#$%/\\.():~*])+$/;
+
+/**
+ * Detectors for binary formats, using their magic numbers. Formats are given
+ * in the order used to rank formats with the same confidence.
+ */
+const BINARY_DETECTORS: Record<string, Detector> = {
+    /* eslint-disable sort-keys */
+    DCD: ({ bytes, text }) => {
+        // Fortran record of 84 bytes, starting with CORD or VELD
+        const marker = text.slice(4, 8);
+        const size = int32(bytes, true) === 84 || int32(bytes, false) === 84;
+        return size && (marker === 'CORD' || marker === 'VELD') ? 1 : 0;
+    },
+    TRR: ({ bytes }) => (int32(bytes, false) === 1993 ? 1 : 0),
+    XTC: ({ bytes }) => (int32(bytes, false) === 1995 ? 1 : 0),
+    TNG: ({ text }) => (text.includes('GENERAL INFO') ? 0.9 : 0),
+    'Amber NetCDF': (header) => {
+        if (!isNetCDF(header)) {
+            return 0;
+        }
+        return header.text.includes('AMBERRESTART') ? 0.5 : 1;
+    },
+    'Amber Restart': (header) => {
+        if (!isNetCDF(header)) {
+            return 0;
+        }
+        return header.text.includes('AMBERRESTART') ? 1 : 0.5;
+    },
+    MMTF: ({ bytes, text }) => {
+        // MessagePack map containing the MMTF version
+        const map = (bytes[0] & 0xf0) === 0x80 || bytes[0] === 0xde || bytes[0] === 0xdf;
+        return map && text.includes('mmtfVersion') ? 1 : 0;
+    },
+    /* eslint-enable sort-keys */
+};
+
+/**
+ * Detectors for text formats, using their header or records. Formats are
+ * given in the order used to rank formats with the same confidence.
+ */
+const TEXT_DETECTORS: Record<string, Detector> = {
+    /* eslint-disable sort-keys */
+    // formats with a specific header
+    MOL2: ({ text }) => (text.includes('@<TRIPOS>') ? 1 : 0),
+    LAMMPS: ({ lines }) => (hasPrefix(lines[0], 'ITEM: TIMESTEP') ? 1 : 0),
+    Molden: ({ lines }) => (hasPrefix(lines[0].trim(), '[Molden Format]') ? 1 : 0),
+    CML: ({ text }) => {
+        if (/<cml[\s>]/.test(text)) {
+            return 1;
+        }
+        return /^\s*<\?xml/.test(text) && /<molecule[\s>]/.test(text) ? 0.7 : 0;
+    },
+    mmCIF: ({ text }) => {
+        if (!/^data_/m.test(text)) {
+            return 0;
+        }
+        return /^_(atom_site|entry|struct|pdbx_\w+)\./m.test(text) ? 1 : 0.4;
+    },
+    CIF: ({ text }) => {
+        if (!/^data_/m.test(text)) {
+            return 0;
+        }
+        return /^_(cell_length_a|atom_site_fract_x|symmetry_|space_group_)/m.test(text) ? 0.9 : 0.5;
+    },
+    SDF: ({ text, lines }) => {
+        // counts line of the MDL Molfile
+        if (lines.length > 3 && /V[23]000\s*$/.test(lines[3])) {
+            return 1;
+        }
+        return text.includes('$$$$') || /^M {2}END/m.test(text) ? 0.7 : 0;
+    },
+    'LAMMPS Data': ({ text }) =>
+        /^\s*\d+\s+atoms\s*$/m.test(text) && /xlo\s+xhi/.test(text) ? 0.9 : 0,
+    // formats recognized from their records
+    PDB: ({ lines }) => {
+        const records = lines.filter((line) => line.trim() !== '');
+        const names = records.map((line) => line.slice(0, 6).trim());
+        const matching = names.filter((name) => PDB_RECORDS.includes(name));
+        if (!['ATOM', 'HETATM', 'CRYST1', 'HEADER'].some((name) => matching.includes(name))) {
+            return 0;
+        }
+        return (0.9 * matching.length) / records.length;
+    },
+    GRO: ({ lines }) => {
+        // title, number of atoms, atoms
+        if (lines.length < 3 || !/^\s*\d+\s*$/.test(lines[1])) {
+            return 0;
+        }
+        return GRO_ATOM.test(lines[2]) ? 0.9 : 0;
+    },
+    XYZ: ({ lines }) => {
+        // number of atoms, comment, atoms
+        if (!/^\s*\d+\s*$/.test(lines[0])) {
+            return 0;
+        }
+        const atoms = lines.slice(2).filter((line) => line.trim() !== '');
+        if (atoms.length === 0) {
+            return 0.3;
+        }
+        return atoms.every((line) => XYZ_ATOM.test(line)) ? 0.9 : 0.1;
+    },
+    Tinker: ({ lines }) => {
+        // number of atoms and title, then atoms. The line after the title
+        // might contain the unit cell.
+        if (!/^\s*\d+(\s|$)/.test(lines[0])) {
+            return 0;
+        }
+        return lines.slice(1, 3).some((line) => TINKER_ATOM.test(line)) ? 0.8 : 0;
+    },
+    SMI: ({ lines }) => {
+        // SMILES, optionally followed by a name on each line
+        const records = lines.filter((line) => line.trim() !== '');
+        const valid = records.every((line) => {
+            const smiles = line.trim().split(/\s+/)[0];
+            return SMILES.test(smiles) && /[A-Za-z]/.test(smiles);
+        });
+        return records.length !== 0 && valid ? 0.5 : 0;
+    },
+    /* eslint-enable sort-keys */
+};
+
+/**
+ * Guess the format of `data` from its content, for example to read data
+ * pasted by a user or files without extension.
+ *
+ * Binary formats (DCD, TRR, XTC, TNG, Amber NetCDF, MMTF) are recognized
+ * from their magic numbers, and text formats from their headers and records,
+ * only looking at the first few kilobytes of data. This returns the names of
+ * all the candidate formats, most likely first, or an empty list if the
+ * format could not be guessed. Compressed data is not inspected, and always
+ * gives an empty list.
+ *
+ * ```typescript doctest
+ * const data = new Uint8Array([...'1\ncomment\nZn 1 2 3\n'].map((c) => c.charCodeAt(0)));
+ * const formats = chemfiles.guessFormatFromContent(data);
+ * assert.equal(formats[0], 'XYZ');
+ * ```
+ *
+ * @param  data content of the file
+ * @return      the names of the candidate formats for this data
+ */
+export function guessFormatFromContent(data: Uint8Array): string[] {
+    if (data.length === 0 || compressionFromData(data) !== undefined) {
+        return [];
+    }
+
+    const bytes = data.subarray(0, HEADER_SIZE);
+    let text = '';
+    for (let i = 0; i < bytes.length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+
+    const lines = text.split(/\r?\n/);
+    if (data.length > HEADER_SIZE && lines.length > 1) {
+        // the last line might be truncated
+        lines.pop();
+    }
+
+    const header = { bytes, lines, text };
+    const detectors = [BINARY_DETECTORS];
+    // text formats can not contain NUL bytes
+    if (bytes.indexOf(0) === -1) {
+        detectors.push(TEXT_DETECTORS);
+    }
+
+    return detectors
+        .map((group) => Object.keys(group).map((name) => ({ name, score: group[name](header) })))
+        .reduce((all, group) => all.concat(group), [])
+        .map((candidate, index) => ({ ...candidate, index }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(({ name }) => name);
+}
+
+/** @hidden
+ * Guess the format of a file from its `filename`, or from its content in
+ * `data` when `filename` is empty, or does not have a known extension. If
+ * the content does not give a format either, this throws the error from
+ * {@link guessFormat}, or returns `undefined` when `filename` is empty.
+ */
+export function guessFileFormat(filename: string, data?: Uint8Array): string | undefined {
+    let error: Error | undefined;
+    if (filename !== '') {
+        try {
+            // the warning is also part of the error message
+            return withWarnings(() => guessFormat(filename)).result;
+        } catch (e) {
+            error = e as Error;
+        }
+    }
+
+    const format = data === undefined ? undefined : guessFormatFromContent(data)[0];
+    if (format === undefined && error !== undefined) {
+        throw error;
+    }
+    return format;
+}
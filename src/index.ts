@@ -5,7 +5,35 @@ export { PropertyType } from './property';
 export { UnitCell, CellShape } from './cell';
 export { Frame, Array3D } from './frame';
 export { Selection } from './selection';
-export { Trajectory } from './trajectory';
+export { FramesOptions, Trajectory, TrajectorySlice, WriteOptions } from './trajectory';
 export { MemoryReader, MemoryWriter } from './browser';
+export { Compression, MemoryOptions } from './compression';
+export { guessFormatFromContent } from './guess';
+export { checkWriteCompatibility, FrameInformation } from './compatibility';
+export { StreamReader, StreamSource } from './stream';
+export { CachedTrajectory, CacheOptions, CacheStatistics } from './cached';
+export { AsyncTrajectory } from './async';
+export {
+    startTrajectoryWorker,
+    CellData,
+    FrameData,
+    MessageTarget,
+    TopologySummary,
+} from './worker';
+export { scope, keep } from './scope';
+export { debug, LiveObject } from './debug';
+export { setStrictMode, withWarnings, StrictOptions, Warning } from './warnings';
+export {
+    ChemfilesError,
+    ConfigurationError,
+    FileError,
+    FormatError,
+    MemoryError,
+    OutOfBoundsError,
+    PropertyError,
+    SelectionError,
+    WarningError,
+} from './errors';
+export { createChemfiles, Chemfiles } from './instance';
 export { Vector3D, Matrix3 } from './utils';
 export * from './misc';
@@ -0,0 +1,256 @@
+import * as chemfiles from './index';
+import {
+    FS,
+    InitOptions,
+    Instance,
+    addConfiguration,
+    clearErrors,
+    currentInstance,
+    formatsList,
+    guessFormat,
+    lastError,
+    lib,
+    loadInstance,
+    setWarningCallback,
+    version,
+    withInstance,
+} from './misc';
+
+import { AsyncTrajectory } from './async';
+import { Atom } from './atom';
+import { MemoryReader, MemoryWriter } from './browser';
+import { CachedTrajectory } from './cached';
+import { CellShape, UnitCell } from './cell';
+import { checkWriteCompatibility } from './compatibility';
+import { debug } from './debug';
+import {
+    ChemfilesError,
+    ConfigurationError,
+    FileError,
+    FormatError,
+    MemoryError,
+    OutOfBoundsError,
+    PropertyError,
+    SelectionError,
+    WarningError,
+} from './errors';
+import { Array3D, Frame } from './frame';
+import { guessFormatFromContent } from './guess';
+import { Residue } from './residue';
+import { keep, scope } from './scope';
+import { Selection } from './selection';
+import { StreamReader } from './stream';
+import { BondOrder, Topology } from './topology';
+import { Trajectory, TrajectorySlice } from './trajectory';
+import { setStrictMode, withWarnings } from './warnings';
+
+/**
+ * Namespace containing all the functions and classes from chemfiles, bound to
+ * a single instance of the chemfiles WASM module. See {@link createChemfiles}.
+ */
+export interface Chemfiles {
+    Atom: typeof Atom;
+    Residue: typeof Residue;
+    Topology: typeof Topology;
+    BondOrder: typeof BondOrder;
+    UnitCell: typeof UnitCell;
+    CellShape: typeof CellShape;
+    Frame: typeof Frame;
+    Array3D: typeof Array3D;
+    Selection: typeof Selection;
+    Trajectory: typeof Trajectory;
+    TrajectorySlice: typeof TrajectorySlice;
+    MemoryReader: typeof MemoryReader;
+    MemoryWriter: typeof MemoryWriter;
+    StreamReader: typeof StreamReader;
+    CachedTrajectory: typeof CachedTrajectory;
+    AsyncTrajectory: typeof AsyncTrajectory;
+    scope: typeof scope;
+    keep: typeof keep;
+    debug: typeof debug;
+    withWarnings: typeof withWarnings;
+    setStrictMode: typeof setStrictMode;
+    ChemfilesError: typeof ChemfilesError;
+    ConfigurationError: typeof ConfigurationError;
+    FileError: typeof FileError;
+    FormatError: typeof FormatError;
+    MemoryError: typeof MemoryError;
+    OutOfBoundsError: typeof OutOfBoundsError;
+    PropertyError: typeof PropertyError;
+    SelectionError: typeof SelectionError;
+    WarningError: typeof WarningError;
+    createChemfiles: typeof createChemfiles;
+    version: typeof version;
+    lastError: typeof lastError;
+    clearErrors: typeof clearErrors;
+    addConfiguration: typeof addConfiguration;
+    setWarningCallback: typeof setWarningCallback;
+    formatsList: typeof formatsList;
+    guessFormat: typeof guessFormat;
+    guessFormatFromContent: typeof guessFormatFromContent;
+    checkWriteCompatibility: typeof checkWriteCompatibility;
+    lib: typeof lib;
+    FS: typeof FS;
+}
+
+/** Objects belonging to a chemfiles instance */
+interface InstanceOwner {
+    readonly __instance?: Instance;
+}
+
+type AnyFunction = (this: unknown, ...args: unknown[]) => unknown;
+
+// Prototypes properties that should not be bound to an instance: `__instance`
+// is used to find the instance of an object, `__generation` does not use the
+// WASM module, and the pointer getters check that the object belongs to the
+// current instance.
+const UNBOUND = ['constructor', '__instance', '__generation', 'ptr', 'const_ptr'];
+
+// Classes that should not be bound to an instance. Array3D accessors are used
+// in tight loops, and only activate the instance when needed.
+const UNBOUND_CLASSES: unknown[] = [Array3D];
+
+let PROTOTYPES_BOUND = false;
+
+/**
+ * Wrap the `method` of a chemfiles class, such that it is always called with
+ * the instance of `this` as the current instance.
+ */
+function bindToThis(method: AnyFunction): AnyFunction {
+    return function (this: unknown, ...args: unknown[]) {
+        const instance = (this as InstanceOwner).__instance;
+        if (instance === undefined || instance === currentInstance()) {
+            // fast path, avoiding the creation of a closure
+            return method.apply(this, args);
+        }
+        return withInstance(instance, () => method.apply(this, args));
+    };
+}
+
+/**
+ * Bind all methods, getters and setters of chemfiles classes to the instance
+ * of the object they are called on. This is only required when using more
+ * than one instance, and is thus only done when creating the first additional
+ * instance.
+ */
+function bindPrototypes(): void {
+    if (PROTOTYPES_BOUND) {
+        return;
+    }
+    PROTOTYPES_BOUND = true;
+
+    const done = new Set<object>();
+    for (const value of Object.values(chemfiles)) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        const prototype = typeof value === 'function' ? (value.prototype as unknown) : undefined;
+        if (typeof prototype !== 'object' || prototype === null || !('__instance' in prototype)) {
+            continue;
+        } else if (UNBOUND_CLASSES.includes(value)) {
+            continue;
+        }
+
+        let current: object = prototype;
+        while (current !== Object.prototype && !done.has(current)) {
+            done.add(current);
+            for (const key of Reflect.ownKeys(current)) {
+                if (typeof key === 'string' && UNBOUND.includes(key)) {
+                    continue;
+                }
+
+                const descriptor = Object.getOwnPropertyDescriptor(current, key);
+                if (descriptor === undefined || descriptor.configurable !== true) {
+                    continue;
+                }
+
+                if (typeof descriptor.value === 'function') {
+                    descriptor.value = bindToThis(descriptor.value as AnyFunction);
+                }
+                if (descriptor.get !== undefined) {
+                    // eslint-disable-next-line @typescript-eslint/unbound-method
+                    descriptor.get = bindToThis(descriptor.get as AnyFunction) as () => unknown;
+                }
+                if (descriptor.set !== undefined) {
+                    // eslint-disable-next-line @typescript-eslint/unbound-method
+                    descriptor.set = bindToThis(descriptor.set as AnyFunction);
+                }
+                Object.defineProperty(current, key, descriptor);
+            }
+            current = Object.getPrototypeOf(current) as object;
+        }
+    }
+}
+
+/**
+ * Wrap a chemfiles function or class, such that calling the function, the
+ * class constructor or any static method uses the given `instance`.
+ */
+function bindToInstance<T extends object>(instance: Instance, value: T): T {
+    return new Proxy(value, {
+        apply: (target, thisArg, args) =>
+            withInstance(instance, (): unknown =>
+                Reflect.apply(target as AnyFunction, thisArg, args)
+            ),
+        construct: (target, args, newTarget) =>
+            withInstance(
+                instance,
+                (): object =>
+                    Reflect.construct(target as new () => object, args, newTarget) as object
+            ),
+        get: (target, key) => {
+            const property = Reflect.get(target, key) as unknown;
+            if (key === 'prototype' || typeof property !== 'function') {
+                return property;
+            }
+            return (...args: unknown[]) =>
+                withInstance(instance, (): unknown =>
+                    Reflect.apply(property as AnyFunction, target, args)
+                );
+        },
+    });
+}
+
+/**
+ * Load a new, independent copy of chemfiles, with its own WASM memory, file
+ * system, warning callback and configuration. This allows separate parts of an
+ * application (or separate tests) to use chemfiles without sharing any state.
+ *
+ * The returned namespace contains the same functions and classes as the
+ * top-level chemfiles namespace, except for {@link init} and {@link ready}.
+ * Objects created from one instance can not be mixed with objects created
+ * from another instance, and trying to do so throws an error. The memory used
+ * by an instance is released once it and all the objects created from it are
+ * no longer reachable.
+ *
+ * ```typescript
+ * const widget = await chemfiles.createChemfiles();
+ * widget.setWarningCallback((message) => showWarning(message));
+ *
+ * const frame = new widget.Frame();
+ * const trajectory = new widget.MemoryReader(data, 'XYZ');
+ * trajectory.read(frame);
+ * ```
+ *
+ * @param options options controlling how to load the WASM code
+ * @return        a promise resolving to the namespace of the new instance
+ */
+export function createChemfiles(options: InitOptions = {}): Promise<Chemfiles> {
+    return loadInstance(options).then((instance) => {
+        bindPrototypes();
+
+        const namespace: Record<string, unknown> = {};
+        for (const [name, value] of Object.entries(chemfiles)) {
+            if (name === 'init' || name === 'ready') {
+                continue;
+            } else if (name === 'lib') {
+                namespace.lib = instance.lib;
+            } else if (name === 'FS') {
+                namespace.FS = instance.lib?.FS;
+            } else if (typeof value === 'function') {
+                namespace[name] = bindToInstance(instance, value);
+            } else {
+                namespace[name] = value;
+            }
+        }
+        return namespace as unknown as Chemfiles;
+    });
+}
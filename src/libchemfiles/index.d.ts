@@ -32,7 +32,13 @@ export type chfl_vector3d = c_double_ptr;
 export type chfl_match_ptr = POINTER & { readonly [tag]: 'chfl_match pointer' };
 export type chfl_format_metadata_ptr = POINTER & { readonly [tag]: 'chfl_format_metadata pointer' };
 
-export declare function loadChemfiles(): Promise<ChemfilesModule>;
+export interface ModuleOptions {
+    locateFile?: (path: string, prefix: string) => string;
+    wasmBinary?: ArrayBuffer | Uint8Array;
+    print?: (text: string) => void;
+    printErr?: (text: string) => void;
+}
+export declare function loadChemfiles(options?: ModuleOptions): Promise<ChemfilesModule>;
 // === End of manual declarations
 
 export type CHFL_TRAJECTORY = CHFL_PTR & { readonly [tag]: 'CHFL_TRAJECTORY' };
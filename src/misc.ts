@@ -2,6 +2,7 @@ import * as sizes from '../lib/wasm-sizes';
 import { ChemfilesModule, loadChemfiles } from './libchemfiles';
 import {
     CHFL_PTR,
+    CHFL_SUCCESS,
     FileSystem,
     c_bool_ptr,
     c_char_ptr,
@@ -10,6 +11,7 @@ import {
 
 import { getValue, stackAlloc, stackAutoclean } from './stack';
 import { assert, check } from './utils';
+import { StrictOptions, emitWarning, strictOperation } from './warnings';
 
 /**
  * Get the version of chemfiles being used as a string
@@ -65,21 +67,22 @@ export function clearErrors(): void {
  * chemfiles.addConfiguration('path/to/config.toml');
  * ```
  *
- * @param path path to the configuration file
+ * @param path    path to the configuration file
+ * @param options use `strict` to turn warnings into errors for this call, see
+ *                {@link setStrictMode}
  */
-export function addConfiguration(path: string): void {
+export function addConfiguration(path: string, options: StrictOptions = {}): void {
     stackAutoclean(() => {
         const ref = stackAlloc('char*', { initial: path });
-        check(lib._chfl_add_configuration(ref.ptr));
+        strictOperation(options, 'chfl_add_configuration', () =>
+            check(lib._chfl_add_configuration(ref.ptr))
+        );
     });
 }
 
 /** Type of callbacks used by chemfiles' warning systems */
 export type WarningCallback = (message: string) => void;
 
-// eslint-disable-next-line no-console
-let CURRENT_CALLBACK: WarningCallback = (message) => console.warn(`[chemfiles] ${message}`);
-
 /**
  * Set the given function `callback` as warning handler.
  *
@@ -88,44 +91,303 @@ let CURRENT_CALLBACK: WarningCallback = (message) => console.warn(`[chemfiles] $
  * @param callback new warning callback to use
  */
 export function setWarningCallback(callback: WarningCallback): void {
-    CURRENT_CALLBACK = callback;
+    CURRENT_INSTANCE.warningCallback = callback;
+}
+
+/** Options controlling how the chemfiles WASM module is loaded by {@link init} */
+export interface InitOptions {
+    /**
+     * Function used to get the URL or path of additional files (such as the
+     * `.wasm` file), given the file `path` and the directory `prefix` of the
+     * main JavaScript file.
+     */
+    locateFile?: (path: string, prefix: string) => string;
+    /**
+     * Pre-fetched WASM binary to use instead of the one embedded in the
+     * JavaScript code.
+     */
+    wasmBinary?: ArrayBuffer | Uint8Array;
+    /** Function receiving the standard output of the WASM code */
+    print?: (text: string) => void;
+    /** Function receiving the standard error of the WASM code */
+    printErr?: (text: string) => void;
+}
+
+/** @hidden
+ * State associated with one instance of the chemfiles WASM module
+ */
+export interface Instance {
+    /** the WASM module, or `undefined` if it is not yet loaded */
+    lib?: ChemfilesModule;
+    /** warning callback for this instance */
+    warningCallback: WarningCallback;
+    /** name of the last chemfiles C API function which failed */
+    operation: string;
+    /** is strict mode enabled for this instance */
+    strict: boolean;
 }
 
-// Function to be registered on the C/WASM side with addFunction, see below
-function actualCallback(message: c_char_ptr): void {
+const DEFAULT_WARNING_CALLBACK: WarningCallback = (message) => {
+    // eslint-disable-next-line no-console
+    console.warn(`[chemfiles] ${message}`);
+};
+
+// instance used by the top-level chemfiles functions and classes
+const DEFAULT_INSTANCE: Instance = {
+    operation: '',
+    strict: false,
+    warningCallback: DEFAULT_WARNING_CALLBACK,
+};
+// instance on which all functions are currently called, see `activate`
+let CURRENT_INSTANCE = DEFAULT_INSTANCE;
+
+/** @hidden
+ * Get the instance on which all functions are currently called
+ */
+export function currentInstance(): Instance {
+    return CURRENT_INSTANCE;
+}
+
+/** @hidden
+ * Make `instance` the current instance, on which all functions are called.
+ * This updates {@link lib} and {@link FS} accordingly, resetting them to
+ * `undefined` if the WASM module of `instance` is not yet loaded.
+ *
+ * @return the previously current instance, which should be re-activated
+ *         when done with this one
+ */
+export function activate(instance: Instance): Instance {
+    const previous = CURRENT_INSTANCE;
+    CURRENT_INSTANCE = instance;
+    if (instance.lib !== undefined) {
+        lib = instance.lib;
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        FS = instance.lib.FS;
+    } else {
+        // do not keep calling into the module of another instance
+        lib = undefined as unknown as ChemfilesModule;
+        FS = undefined as unknown as FileSystem;
+    }
+    return previous;
+}
+
+/** @hidden
+ * Call the given `callback` with `instance` as the current instance, and
+ * restore the previous instance afterward.
+ */
+export function withInstance<T>(instance: Instance | undefined, callback: () => T): T {
+    if (instance === undefined || instance === currentInstance()) {
+        return callback();
+    }
+
+    const previous = activate(instance);
     try {
-        CURRENT_CALLBACK(lib.UTF8ToString(message));
-    } catch (e) {
-        // eslint-disable-next-line no-console
-        console.warn('exception raised in warning callback:', e);
+        return callback();
+    } finally {
+        activate(previous);
     }
 }
 
-function __setupWarningCallback() {
-    // register 'actualCallback' as the warning callback so that a single
-    // function is registered.
-    //
-    // The signature is set to v for 'return void' and i for 'parameter is an
-    // integer'. It will actually be a 'const char*', but this should have the
-    // same size as a 32-bit integer.
-    check(lib._chfl_set_warning_callback(lib.addFunction(actualCallback, 'vi')));
+/** @hidden
+ * Load a new copy of the chemfiles WASM module with the given `options`, and
+ * store it in `instance`. The `instance` can then be activated.
+ */
+export function loadInstance(
+    options: InitOptions,
+    instance: Instance = { operation: '', strict: false, warningCallback: DEFAULT_WARNING_CALLBACK }
+): Promise<Instance> {
+    return loadChemfiles({ ...options }).then(
+        (module) => {
+            recordOperations(module, instance);
+
+            // Register a single function as the warning callback on the
+            // C/WASM side, dispatching to the instance warning callback.
+            //
+            // The signature is set to v for 'return void' and i for 'parameter
+            // is an integer'. It will actually be a 'const char*', but this
+            // should have the same size as a 32-bit integer.
+            const callback = module.addFunction((message: c_char_ptr) => {
+                try {
+                    emitWarning(module.UTF8ToString(message), instance.warningCallback);
+                } catch (e) {
+                    // eslint-disable-next-line no-console
+                    console.warn('exception raised in warning callback:', e);
+                }
+            }, 'vi');
+            check(module._chfl_set_warning_callback(callback));
+
+            instance.lib = module;
+            return instance;
+        },
+        (error: unknown) => {
+            throw Error(`failed to load chemfiles WASM code: ${String(error)}`);
+        }
+    );
+}
+
+// functions which are not recorded as operations, since they are used when
+// reporting errors, outside of the normal control flow, or can not fail
+const UNRECORDED_FUNCTIONS = [
+    '_chfl_last_error',
+    '_chfl_clear_errors',
+    '_chfl_free',
+    '_chfl_trajectory_close',
+];
+
+// functions returning a pointer, which is NULL when the function fails. All
+// other recorded functions return a status code.
+const POINTER_FUNCTIONS = [
+    '_chfl_version',
+    '_chfl_property_bool',
+    '_chfl_property_double',
+    '_chfl_property_string',
+    '_chfl_property_vector3d',
+    '_chfl_atom',
+    '_chfl_atom_copy',
+    '_chfl_atom_from_frame',
+    '_chfl_atom_from_topology',
+    '_chfl_atom_get_property',
+    '_chfl_residue',
+    '_chfl_residue_with_id',
+    '_chfl_residue_from_topology',
+    '_chfl_residue_for_atom',
+    '_chfl_residue_copy',
+    '_chfl_residue_get_property',
+    '_chfl_topology',
+    '_chfl_topology_from_frame',
+    '_chfl_topology_copy',
+    '_chfl_cell',
+    '_chfl_cell_from_matrix',
+    '_chfl_cell_from_frame',
+    '_chfl_cell_copy',
+    '_chfl_frame',
+    '_chfl_frame_copy',
+    '_chfl_frame_get_property',
+    '_chfl_trajectory_open',
+    '_chfl_trajectory_with_format',
+    '_chfl_trajectory_memory_reader',
+    '_chfl_trajectory_memory_writer',
+    '_chfl_selection',
+    '_chfl_selection_copy',
+];
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Wrap all chemfiles functions in `module` to record the name of the last
+ * function which failed in `instance.operation`. This name is then used when
+ * reporting errors.
+ */
+function recordOperations(module: ChemfilesModule, instance: Instance): void {
+    const functions = module as unknown as Record<string, AnyFunction>;
+    for (const name of Object.keys(module)) {
+        if (!name.startsWith('_chfl_') || UNRECORDED_FUNCTIONS.includes(name)) {
+            continue;
+        }
+
+        const operation = name.substring(1);
+        const returnsPointer = POINTER_FUNCTIONS.includes(name);
+        const record = (original: AnyFunction): AnyFunction => {
+            return function (this: unknown) {
+                // rest parameters and spread are slow when targeting ES5
+                // eslint-disable-next-line prefer-rest-params
+                const result = original.apply(this, arguments as unknown as unknown[]);
+                if (returnsPointer ? result === 0 : result !== CHFL_SUCCESS) {
+                    instance.operation = operation;
+                }
+                return result;
+            };
+        };
+
+        // Emscripten replaces the functions with the raw WASM exports on
+        // first call. Wrap the raw export when this happens, and store it in
+        // a data property, which is faster to access than a getter.
+        const initial = record(functions[name]);
+        Object.defineProperty(module, name, {
+            configurable: true,
+            enumerable: true,
+            get: () => initial,
+            set: (value: AnyFunction) => {
+                Object.defineProperty(module, name, {
+                    configurable: true,
+                    enumerable: true,
+                    value: record(value),
+                    writable: true,
+                });
+            },
+        });
+    }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-empty-function
 const READY_CALLBACKS: Array<() => void> = [];
 let IS_READY = false;
+let INITIALIZATION: Promise<void> | undefined;
+
+/**
+ * Load and compile the chemfiles WASM code. This must be done before using
+ * any other function or class from chemfiles.
+ *
+ * The returned promise resolves once chemfiles is ready to be used, and
+ * rejects if the WASM code can not be loaded. If chemfiles is already loaded
+ * or loading, the `options` are ignored and the existing promise is returned.
+ * After a failure, calling this function again will retry loading the code.
+ *
+ * Use {@link createChemfiles} to load additional, independent copies of
+ * chemfiles.
+ *
+ * ```typescript
+ * await chemfiles.init({
+ *     locateFile: (path) => `https://example.com/static/${path}`,
+ *     printErr: (text) => myLogger.error(text),
+ * });
+ *
+ * const frame = new chemfiles.Frame();
+ * ```
+ *
+ * @param options options controlling how to load the WASM code
+ */
+export function init(options: InitOptions = {}): Promise<void> {
+    if (INITIALIZATION === undefined) {
+        INITIALIZATION = loadInstance(options, DEFAULT_INSTANCE).then(
+            () => {
+                if (CURRENT_INSTANCE === DEFAULT_INSTANCE) {
+                    activate(DEFAULT_INSTANCE);
+                }
+
+                IS_READY = true;
+                for (const callback of READY_CALLBACKS.splice(0)) {
+                    callback();
+                }
+            },
+            (error: Error) => {
+                INITIALIZATION = undefined;
+                throw error;
+            }
+        );
+    }
+    return INITIALIZATION;
+}
 
 /**
  * Call the given `callback` as soon as chemfiles code finishes loading, or
  * immediately if chemfiles is already loaded.
+ *
+ * If {@link init} was not called yet, this starts loading chemfiles with the
+ * default options. Errors while loading the code are sent to `console.error`,
+ * use {@link init} directly to handle them.
  */
 export function ready(callback: () => void): void {
     if (IS_READY) {
-        // directly call the callback
         callback();
-    } else {
-        // register it to be called below
-        READY_CALLBACKS.push(callback);
+        return;
+    }
+
+    READY_CALLBACKS.push(callback);
+    if (INITIALIZATION === undefined) {
+        init().catch((error: Error) => {
+            // eslint-disable-next-line no-console
+            console.error(error.message);
+        });
     }
 }
 
@@ -305,20 +567,3 @@ export let lib: ChemfilesModule;
  * for the corresponding documentation.
  */
 export let FS: FileSystem;
-
-loadChemfiles()
-    .then((new_instance) => {
-        lib = new_instance;
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        FS = new_instance.FS;
-
-        __setupWarningCallback();
-        for (const callback of READY_CALLBACKS) {
-            callback();
-        }
-        IS_READY = true;
-    })
-    .catch((err: string) => {
-        // eslint-disable-next-line no-console
-        console.error(`failed to load WASM: ${err}`);
-    });
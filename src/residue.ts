@@ -1,4 +1,4 @@
-import { CHFL_GENERIC_ERROR, CHFL_RESIDUE } from './libchemfiles';
+import { CHFL_GENERIC_ERROR, CHFL_PTR, CHFL_RESIDUE } from './libchemfiles';
 import { lib } from './misc';
 
 import { Pointer } from './c_ptr';
@@ -20,11 +20,17 @@ export class Residue extends Pointer<CHFL_RESIDUE, ResidueExtra> {
     /** @hidden
      * Create a new {@link Residue} from a raw pointer
      */
-    public static __from_ptr(ptr: CHFL_RESIDUE, isConst: boolean): Residue {
-        const parent = new Pointer(ptr, isConst, 'Residue');
-        const residue = Object.create(Residue.prototype) as Residue;
-        Object.assign(residue, parent);
-        return residue;
+    public static __from_ptr(
+        ptr: CHFL_RESIDUE,
+        isConst: boolean,
+        owner?: Pointer<CHFL_PTR, unknown>
+    ): Residue {
+        const ResiduePointer = Pointer<CHFL_RESIDUE, ResidueExtra>;
+        return Reflect.construct(
+            ResiduePointer,
+            [ptr, isConst, 'Residue', owner],
+            Residue
+        ) as Residue;
     }
 
     /**
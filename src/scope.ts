@@ -0,0 +1,130 @@
+/** Objects which can be tracked by a {@link scope} */
+interface Deletable {
+    delete(): void;
+}
+
+// stack of currently active scopes, the innermost scope is the last one
+const SCOPES: Array<Set<Deletable>> = [];
+
+/** @hidden
+ * Register a newly created `object` with the innermost active scope, if any.
+ */
+export function trackInScope(object: Deletable): void {
+    if (SCOPES.length !== 0) {
+        SCOPES[SCOPES.length - 1].add(object);
+    }
+}
+
+/** @hidden
+ * Remove the given `object` from all active scopes, the memory of the
+ * `object` must then be released manually with `delete()`.
+ */
+export function untrack(object: Deletable): void {
+    for (const tracked of SCOPES) {
+        tracked.delete(object);
+    }
+}
+
+/**
+ * Prevent the innermost {@link scope} tracking the given `object` from
+ * deleting it. If this scope is nested inside another one, the `object` is
+ * transferred to the enclosing scope, and will be deleted at the end of the
+ * enclosing scope. Otherwise, the memory of the `object` must be released
+ * manually with `delete()`.
+ *
+ * This function does nothing if the `object` is not tracked by any scope.
+ *
+ * ```typescript doctest
+ * let atom;
+ * chemfiles.scope(() => {
+ *     atom = chemfiles.keep(new chemfiles.Atom('O'));
+ *     const other = new chemfiles.Atom('H');
+ * });
+ *
+ * assert.equal(atom.name, 'O');
+ * atom.delete();
+ * ```
+ *
+ * @param  object object to remove from the scope
+ * @return        the same `object`
+ */
+export function keep<T extends Deletable>(object: T): T {
+    for (let i = SCOPES.length - 1; i >= 0; i--) {
+        if (SCOPES[i].delete(object)) {
+            if (i !== 0) {
+                SCOPES[i - 1].add(object);
+            }
+            break;
+        }
+    }
+    return object;
+}
+
+/**
+ * Call the given `callback`, and release the memory of all chemfiles objects
+ * created during the call once it returns or throws. This includes objects
+ * created with `new`, objects created by `clone` functions, and references
+ * returned by functions such as {@link Frame.atom}, {@link Frame.cell} or
+ * {@link Topology.residue}.
+ *
+ * Objects explicitly marked with {@link keep}, as well as objects returned by
+ * the `callback` (either directly, or as elements of a returned array) are not
+ * deleted. Scopes can be nested, in which case the objects escaping from the
+ * inner scope are tracked by the outer one.
+ *
+ * The `callback` must be synchronous, objects created after it returns (for
+ * example in a `Promise` callback) are not tracked.
+ *
+ * ```typescript doctest
+ * const frame = new chemfiles.Frame();
+ * frame.resize(10);
+ *
+ * const names = chemfiles.scope(() => {
+ *     const names = [];
+ *     for (let i = 0; i < frame.size; i++) {
+ *         // all these atoms are deleted at the end of the scope
+ *         const atom = frame.atom(i);
+ *         atom.name = `C${i}`;
+ *         names.push(atom.name);
+ *     }
+ *     return names;
+ * });
+ * assert.equal(names[3], 'C3');
+ *
+ * const atom = chemfiles.scope(() => {
+ *     const residue = new chemfiles.Residue('ALA');
+ *     // the returned atom is not deleted, but the residue is
+ *     return frame.atom(2);
+ * });
+ * assert.equal(atom.name, 'C2');
+ *
+ * atom.delete();
+ * frame.delete();
+ * ```
+ *
+ * @param  callback function to call inside the new scope
+ * @return          the value returned by `callback`
+ */
+export function scope<T>(callback: () => T): T {
+    const tracked = new Set<Deletable>();
+    SCOPES.push(tracked);
+    try {
+        const result = callback();
+        if (Array.isArray(result)) {
+            for (const value of result) {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+                keep(value);
+            }
+        } else {
+            keep(result as unknown as Deletable);
+        }
+        return result;
+    } finally {
+        SCOPES.pop();
+        // delete objects in the reverse order of creation
+        const objects = Array.from(tracked);
+        for (let i = objects.length - 1; i >= 0; i--) {
+            objects[i].delete();
+        }
+    }
+}
@@ -7,6 +7,7 @@ import { Frame } from './frame';
 
 import { getValue, stackAlloc, stackAutoclean } from './stack';
 import { assert, autogrowStrBuffer, check } from './utils';
+import { StrictOptions, strictOperation } from './warnings';
 
 assert(SIZEOF_CHFL_MATCH === 5 * SIZEOF_UINT64_T, 'wrong size for chfl_match');
 
@@ -41,10 +42,7 @@ export class Selection extends Pointer<CHFL_SELECTION, never> {
      */
     public static clone(selection: Selection): Selection {
         const ptr = lib._chfl_selection_copy(selection.const_ptr);
-        const parent = new Pointer(ptr, false, 'Selection');
-        const newSelection = Object.create(Selection.prototype) as Selection;
-        Object.assign(newSelection, parent);
-        return newSelection;
+        return Reflect.construct(Pointer, [ptr, false, 'Selection'], Selection) as Selection;
     }
 
     /**
@@ -147,13 +145,17 @@ export class Selection extends Pointer<CHFL_SELECTION, never> {
      * frame.delete();
      * ```
      *
-     * @param  frame the frame to consider for matching atoms
-     * @return       a list of the indexes of matching atoms
+     * @param  frame   the frame to consider for matching atoms
+     * @param  options use `strict` to turn warnings into errors for this call,
+     *                 see {@link setStrictMode}
+     * @return         a list of the indexes of matching atoms
      */
-    public evaluate(frame: Frame): Array<number | number[]> {
+    public evaluate(frame: Frame, options: StrictOptions = {}): Array<number | number[]> {
         return stackAutoclean(() => {
             const countRef = stackAlloc('uint64_t');
-            check(lib._chfl_selection_evaluate(this.ptr, frame.const_ptr, countRef.ptr));
+            strictOperation(options, 'chfl_selection_evaluate', () =>
+                check(lib._chfl_selection_evaluate(this.ptr, frame.const_ptr, countRef.ptr))
+            );
             const count = getValue(countRef);
 
             const matches = lib.stackAlloc(count * SIZEOF_CHFL_MATCH);
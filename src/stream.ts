@@ -0,0 +1,281 @@
+/// <reference lib="dom" />
+/// <reference lib="es2018.asyncgenerator" />
+/// <reference lib="es2018.asynciterable" />
+
+import { Instance, currentInstance, withInstance } from './misc';
+
+import { MemoryReader } from './browser';
+import { Frame } from './frame';
+import { FramesOptions } from './trajectory';
+
+/**
+ * Source of data for a {@link StreamReader}: either a WHATWG
+ * `ReadableStream` (for example the body of a `fetch` response) or any
+ * asynchronous iterable producing bytes or strings, such as a node.js
+ * `Readable` stream.
+ */
+export type StreamSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Status of the lines accumulated for the current frame: `'incomplete'` if
+ * more lines are needed, `'complete'` if these lines contain a full frame,
+ * and `'ignore'` if they should be discarded.
+ */
+type FrameStatus = 'incomplete' | 'complete' | 'ignore';
+
+/**
+ * Functions finding the end of frames for all formats supported by
+ * {@link StreamReader}. When the file is badly formatted, the frame is
+ * considered complete to let chemfiles report the error.
+ */
+const FRAME_SPLITTERS: Record<string, (lines: string[]) => FrameStatus> = {
+    GRO: (lines) => {
+        // title, number of atoms, atoms and unit cell
+        if (lines.length < 2) {
+            return 'incomplete';
+        }
+        const natoms = parseInt(lines[1], 10);
+        return isNaN(natoms) || lines.length === natoms + 3 ? 'complete' : 'incomplete';
+    },
+    PDB: (lines) => {
+        const last = lines[lines.length - 1];
+        if (!/^END(MDL)?(\s|$)/.test(last)) {
+            return 'incomplete';
+        }
+        // skip the END record following the last ENDMDL
+        return lines.some((line) => /^(ATOM {2}|HETATM)/.test(line)) ? 'complete' : 'ignore';
+    },
+    XYZ: (lines) => {
+        // number of atoms, comment and atoms
+        if (lines[0].trim() === '') {
+            return 'ignore';
+        }
+        const natoms = parseInt(lines[0], 10);
+        return isNaN(natoms) || lines.length === natoms + 2 ? 'complete' : 'incomplete';
+    },
+};
+
+/**
+ * Read frames from a stream of data, as soon as they are complete. This
+ * allows processing very large files without loading them in memory, for
+ * example when fetching them over HTTP or when they are produced by another
+ * program.
+ *
+ * Only the text-based XYZ, PDB and GRO formats are supported. Each frame is
+ * read independently, meaning that information only given once at the
+ * beginning of a multi-model PDB file (for example the unit cell) is only
+ * available in the first frame.
+ *
+ * ```typescript
+ * const response = await fetch('https://example.com/trajectory.xyz');
+ * const reader = new chemfiles.StreamReader(response.body, 'XYZ');
+ *
+ * for await (const frame of reader.frames({ reuseFrame: true })) {
+ *     // [...]
+ * }
+ * ```
+ * &nbsp;
+ * ```typescript
+ * // with node.js
+ * const stream = fs.createReadStream('trajectory.pdb');
+ * for await (const frame of new chemfiles.StreamReader(stream, 'PDB')) {
+ *     // [...]
+ *     frame.delete();
+ * }
+ * ```
+ */
+export class StreamReader {
+    private readonly _stream: StreamSource;
+    private readonly _format: string;
+    // chemfiles instance used to read the frames
+    private readonly _instance: Instance;
+    private _used: boolean;
+
+    /**
+     * Create a new reader for the data in `stream`, using the given
+     * `format`.
+     *
+     * @param stream source of the data
+     * @param format format of the data, one of `XYZ`, `PDB` or `GRO`
+     */
+    constructor(stream: StreamSource, format: string) {
+        if (!(format in FRAME_SPLITTERS)) {
+            const supported = Object.keys(FRAME_SPLITTERS).join(', ');
+            throw Error(
+                `can not stream data in '${format}' format, supported formats are ${supported}`
+            );
+        }
+
+        this._stream = stream;
+        this._format = format;
+        this._instance = currentInstance();
+        this._used = false;
+    }
+
+    /**
+     * Iterate over the frames in the stream, reading each one as soon as all
+     * the corresponding data is available. The iteration stops at the end of
+     * the stream, and the stream can only be iterated over once.
+     *
+     * Setting `options.reuseFrame` reads all frames in the same
+     * {@link Frame}, see {@link Trajectory.frames}.
+     *
+     * @param options options for the iteration, and `strict` to turn
+     *                warnings into errors (see {@link setStrictMode})
+     */
+    public async *frames(options: FramesOptions = {}): AsyncGenerator<Frame, void, void> {
+        if (this._used) {
+            throw Error('this StreamReader was already used');
+        }
+        this._used = true;
+
+        const reader = chunkReader(this._stream);
+        const decoder = new TextDecoder();
+        const split = FRAME_SPLITTERS[this._format];
+
+        let pending = '';
+        let lines: string[] = [];
+        let step = 0;
+        let frame: Frame | undefined;
+        try {
+            let done = false;
+            while (!done) {
+                const chunk = await reader.read();
+                if (chunk === undefined) {
+                    done = true;
+                    pending += decoder.decode();
+                    if (pending !== '') {
+                        // the last line might not end with a new line
+                        pending += '\n';
+                    }
+                } else if (typeof chunk === 'string') {
+                    pending += chunk;
+                } else {
+                    pending += decoder.decode(chunk, { stream: true });
+                }
+
+                let start = 0;
+                let end = pending.indexOf('\n');
+                while (end !== -1) {
+                    lines.push(pending.slice(start, pending[end - 1] === '\r' ? end - 1 : end));
+                    start = end + 1;
+                    end = pending.indexOf('\n', start);
+
+                    const status = split(lines);
+                    if (status === 'complete') {
+                        const reused = options.reuseFrame === true ? frame : undefined;
+                        frame = this.readFrame(lines, step, reused, options);
+                        step += 1;
+                        lines = [];
+                        yield frame;
+                    } else if (status === 'ignore') {
+                        lines = [];
+                    }
+                }
+                pending = pending.slice(start);
+            }
+
+            // the last frame might not be followed by an end marker
+            if (lines.some((line) => line.trim() !== '')) {
+                const reused = options.reuseFrame === true ? frame : undefined;
+                yield this.readFrame(lines, step, reused, options);
+            }
+        } finally {
+            await reader.release();
+            if (options.reuseFrame === true && frame !== undefined) {
+                frame.delete();
+            }
+        }
+    }
+
+    /**
+     * Iterate over the frames in the stream, creating a new {@link Frame}
+     * for each step. This is the same as calling {@link StreamReader.frames}
+     * without options.
+     */
+    public [Symbol.asyncIterator](): AsyncGenerator<Frame, void, void> {
+        return this.frames();
+    }
+
+    /**
+     * Read the frame contained in `lines` in `frame`, or in a new
+     * {@link Frame} if `frame` is undefined.
+     */
+    private readFrame(
+        lines: string[],
+        step: number,
+        frame: Frame | undefined,
+        options: FramesOptions
+    ): Frame {
+        return withInstance(this._instance, () => {
+            const data = new TextEncoder().encode(lines.join('\n') + '\n');
+            const trajectory = new MemoryReader(data, this._format);
+            const result = frame ?? new Frame();
+            try {
+                trajectory.read(result, options);
+                result.step = step;
+            } catch (error) {
+                if (frame === undefined) {
+                    result.delete();
+                }
+                throw error;
+            } finally {
+                trajectory.close();
+            }
+            return result;
+        });
+    }
+}
+
+/** Reader for the chunks of data in a {@link StreamSource} */
+interface ChunkReader {
+    /** Get the next chunk of data, or `undefined` at the end of the stream */
+    read(): Promise<Uint8Array | string | undefined>;
+    /** Release the stream, cancelling it if it was not read until the end */
+    release(): Promise<void>;
+}
+
+/**
+ * Create a {@link ChunkReader} for the given `stream`.
+ *
+ * This does not use `for await` loops, which do not stop the underlying
+ * stream when exiting the loop early with the version of TypeScript we use.
+ */
+function chunkReader(stream: StreamSource): ChunkReader {
+    let done = false;
+
+    if ('getReader' in stream) {
+        // not all browsers support async iteration over ReadableStream
+        const reader = stream.getReader();
+        return {
+            read: async () => {
+                const result = await reader.read();
+                done = result.done;
+                return result.value;
+            },
+            release: async () => {
+                if (!done) {
+                    await reader.cancel();
+                }
+                reader.releaseLock();
+            },
+        };
+    }
+
+    const iterator = stream[Symbol.asyncIterator]();
+    return {
+        read: async () => {
+            const result = await iterator.next();
+            if (result.done === true) {
+                done = true;
+                return undefined;
+            }
+            return result.value;
+        },
+        release: async () => {
+            if (!done && iterator.return !== undefined) {
+                await iterator.return();
+            }
+        },
+    };
+}
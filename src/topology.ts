@@ -1,4 +1,4 @@
-import { CHFL_TOPOLOGY } from './libchemfiles';
+import { CHFL_PTR, CHFL_TOPOLOGY } from './libchemfiles';
 import {
     CHFL_BOND_AMIDE,
     CHFL_BOND_AROMATIC,
@@ -54,11 +54,12 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
     /** @hidden
      * Create a new Atom from a raw pointer
      */
-    public static __from_ptr(ptr: CHFL_TOPOLOGY, isConst: boolean): Topology {
-        const parent = new Pointer(ptr, isConst, 'Topology');
-        const atom = Object.create(Topology.prototype) as Topology;
-        Object.assign(atom, parent);
-        return atom;
+    public static __from_ptr(
+        ptr: CHFL_TOPOLOGY,
+        isConst: boolean,
+        owner?: Pointer<CHFL_PTR, unknown>
+    ): Topology {
+        return Reflect.construct(Pointer, [ptr, isConst, 'Topology', owner], Topology) as Topology;
     }
 
     /**
@@ -133,6 +134,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
     public resize(size: number): void {
         assert(isUnsignedInteger(size), 'size should be a positive integer');
         check(lib._chfl_topology_resize(this.ptr, size, 0));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -230,6 +232,8 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
      *
      * This function increase the reference count of this topology, memory will
      * not be released before the atom is itself released with {@link Atom.delete}.
+     * The atom can not be used after this topology is deleted, or after atoms
+     * or residues are added or removed from it.
      *
      * ```typescript doctest
      * const topology = new chemfiles.Topology();
@@ -248,7 +252,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
     public atom(index: number): Atom {
         assert(isUnsignedInteger(index), 'atom index should be a positive integer');
         const ptr = lib._chfl_atom_from_topology(this.ptr, index, 0);
-        return Atom.__from_ptr(ptr, false);
+        return Atom.__from_ptr(ptr, false, this);
     }
 
     /**
@@ -270,6 +274,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
      */
     public addAtom(atom: Atom): void {
         check(lib._chfl_topology_add_atom(this.ptr, atom.const_ptr));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -304,6 +309,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
     public remove(index: number): void {
         assert(isUnsignedInteger(index), 'atom index should be a positive integer');
         check(lib._chfl_topology_remove(this.ptr, index, 0));
+        this.__invalidate_borrowed();
     }
 
     /**
@@ -336,7 +342,8 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
      *
      * This function increase the reference count of this topology, memory will
      * not be released before the residue is itself released with
-     * {@link Residue.delete}.
+     * {@link Residue.delete}. The residue can not be used after this topology
+     * is deleted, or after atoms or residues are added or removed from it.
      *
      * ```typescript doctest
      * const topology = new chemfiles.Topology();
@@ -364,7 +371,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
     public residue(index: number): Residue {
         assert(isUnsignedInteger(index), 'residue index should be a positive integer');
         const ptr = lib._chfl_residue_from_topology(this.const_ptr, index, 0);
-        return Residue.__from_ptr(ptr, true);
+        return Residue.__from_ptr(ptr, true, this);
     }
 
     /**
@@ -373,7 +380,8 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
      *
      * This function increase the reference count of this topology, memory will
      * not be released before the residue is itself released with
-     * {@link Residue.delete}.
+     * {@link Residue.delete}. The residue can not be used after this topology
+     * is deleted, or after atoms or residues are added or removed from it.
      *
      * ```typescript doctest
      * const topology = new chemfiles.Topology();
@@ -406,7 +414,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
         if (ptr === 0) {
             return undefined;
         } else {
-            return Residue.__from_ptr(ptr, true);
+            return Residue.__from_ptr(ptr, true, this);
         }
     }
 
@@ -438,6 +446,7 @@ export class Topology extends Pointer<CHFL_TOPOLOGY, never> {
      */
     public addResidue(residue: Residue): void {
         check(lib._chfl_topology_add_residue(this.ptr, residue.const_ptr));
+        this.__invalidate_borrowed();
     }
 
     /**
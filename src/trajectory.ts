@@ -1,19 +1,90 @@
-import { CHFL_TRAJECTORY } from './libchemfiles';
-import { lib } from './misc';
+/// <reference lib="es2018.asyncgenerator" />
+/// <reference lib="es2018.asynciterable" />
+
+import { CHFL_FILE_ERROR, CHFL_FORMAT_ERROR, CHFL_TRAJECTORY, c_char_ptr } from './libchemfiles';
+import {
+    FormatMetadata,
+    Instance,
+    currentInstance,
+    formatsList,
+    guessFormat,
+    lib,
+    withInstance,
+} from './misc';
 
 import { Pointer } from './c_ptr';
 import { UnitCell } from './cell';
+import { checkWriteCompatibility, lostInformationMessage } from './compatibility';
+import { splitFormat } from './compression';
+import { ChemfilesError, FileError, nullPointerError } from './errors';
 import { Frame } from './frame';
+import { guessFileFormat } from './guess';
 import { Topology } from './topology';
 
 import { getValue, stackAlloc, stackAutoclean } from './stack';
 import { assert, autogrowStrBuffer, check, isUnsignedInteger } from './utils';
+import {
+    StrictOptions,
+    emitWarning,
+    strictOperation,
+    warningContext,
+    withExpectedError,
+    withWarnings,
+} from './warnings';
+
+/** Extra data stored in {@link Trajectory} */
+interface TrajectoryExtra {
+    // path and format used to open the trajectory
+    jsPath: string;
+    format: string;
+    // mode used to open the trajectory
+    mode: string;
+    // in-memory trajectories: data used by readers, owned by the trajectory,
+    // path of the file used by writers for some formats, and content of
+    // writers after they are closed (cf browser.ts)
+    memory: c_char_ptr;
+    file: string;
+    content: Uint8Array;
+}
+
+/**
+ * Registry used to release the WASM memory containing the data of in-memory
+ * trajectories which were garbage collected without being closed.
+ */
+const FINALIZER =
+    typeof FinalizationRegistry === 'undefined'
+        ? undefined
+        : new FinalizationRegistry<{ memory: c_char_ptr; instance: Instance }>(
+              ({ memory, instance }) => instance.lib?._free(memory)
+          );
+
+/** Options for iterating over the frames of a {@link Trajectory} */
+export interface FramesOptions extends StrictOptions {
+    /**
+     * Use the same {@link Frame} for all steps instead of allocating a new
+     * one for each step. The frame is overwritten when reading the next step
+     * and released at the end of the iteration; use {@link Frame.clone} to
+     * keep a copy around.
+     */
+    reuseFrame?: boolean;
+}
+
+/** Options for writing frames to a {@link Trajectory} */
+export interface WriteOptions extends StrictOptions {
+    /**
+     * Check that the format of the trajectory can store all the information
+     * in the frame (see {@link checkWriteCompatibility}), and emit a warning
+     * for all the information that will be lost. In strict mode, these
+     * warnings are turned into a {@link WarningError}.
+     */
+    checkCompatibility?: boolean;
+}
 
 /**
  * A {@link Trajectory} represent a physical file, from which we can read
  * {@link Frame}.
  */
-export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
+export class Trajectory extends Pointer<CHFL_TRAJECTORY, TrajectoryExtra> {
     /**
      * Open the file at the given `path` using the given `mode` and optional
      * file `format`.
@@ -27,7 +98,8 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      *
      * This function allocate WASM memory, which must be released with
      * {@link Trajectory.close}. When writing files, {@link Trajectory.close}
-     * also flush any un-written buffers.
+     * also flush any un-written buffers. The trajectory is also closed
+     * automatically at the end of the scope when declared with `using`.
      *
      * ```typescript
      * const trajectory = new chemfiles.Trajectory('path/to/file.nc');
@@ -41,33 +113,147 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * // more science here!
      * trajectory.close();
      * ```
+     * &nbsp;
+     * ```typescript
+     * {
+     *     using trajectory = new chemfiles.Trajectory('path/to/file.xyz');
+     *     using frame = new chemfiles.Frame();
+     *     trajectory.read(frame);
+     *     // even more science here!
+     * }
+     * // both frame and trajectory are released here, even if an exception
+     * // was thrown while reading the file
+     * ```
      *
      * @param path   path to the file to open
      * @param mode   whether to open the file in read, write or append mode
      * @param format format to use when reading the file
      */
-    constructor(path: string, mode: string = 'r', format?: string) {
-        const ptr = stackAutoclean(() => {
-            const pathRef = stackAlloc('char*', { initial: path });
-            if (format === undefined) {
-                return lib._chfl_trajectory_open(pathRef.ptr, mode.charCodeAt(0));
-            } else {
-                const formatRef = stackAlloc('char*', { initial: format });
-                return lib._chfl_trajectory_with_format(
-                    pathRef.ptr,
-                    mode.charCodeAt(0),
-                    formatRef.ptr
-                );
+    constructor(path: string, mode?: string, format?: string);
+    /** @hidden
+     * Create a trajectory with the pointer returned by `open`, and the given
+     * `path` and `format`. This is used by in-memory trajectories (cf
+     * browser.ts). The trajectory takes ownership of `memory` (allocated
+     * with `_malloc`), and releases it when closed.
+     */
+    constructor(path: string, open: () => CHFL_TRAJECTORY, format?: string, memory?: c_char_ptr);
+    constructor(
+        path: string,
+        mode: string | (() => CHFL_TRAJECTORY) = 'r',
+        format?: string,
+        memory?: c_char_ptr
+    ) {
+        const context = {
+            format: format === '' ? undefined : format,
+            path: path === '' ? undefined : path,
+        };
+        const ptr = warningContext(context, () => {
+            if (typeof mode === 'function') {
+                return mode();
             }
+
+            return stackAutoclean(() => {
+                const pathRef = stackAlloc('char*', { initial: path });
+                if (format === undefined) {
+                    return lib._chfl_trajectory_open(pathRef.ptr, mode.charCodeAt(0));
+                } else {
+                    const formatRef = stackAlloc('char*', { initial: format });
+                    return lib._chfl_trajectory_with_format(
+                        pathRef.ptr,
+                        mode.charCodeAt(0),
+                        formatRef.ptr
+                    );
+                }
+            });
         });
+        if (ptr === 0) {
+            if (memory !== undefined) {
+                lib._free(memory);
+            }
+            throw nullPointerError(() => openStatus(path, format, typeof mode === 'function'));
+        }
         super(ptr, false, 'Trajectory');
         // Store the path used to open the trajectory directly in javascript
-        // to enable the MemoryTrajectory use case (cf browser.ts)
+        // to enable the in-memory trajectories use case (cf browser.ts)
         this._extra.jsPath = path;
+        this._extra.format = context.format;
+        this._extra.mode = typeof mode === 'function' ? 'r' : mode.charAt(0);
+
+        if (memory !== undefined) {
+            this._extra.memory = memory;
+            if (FINALIZER !== undefined) {
+                FINALIZER.register(this, { instance: currentInstance(), memory }, this);
+            }
+        }
+    }
+
+    /**
+     * Read a trajectory from a `File` (for example coming from drag-and-drop
+     * or an `<input type="file">` element), a `Blob` or an `ArrayBuffer`.
+     *
+     * The file format should be provided in `format`; or it is guessed from
+     * the name of the file if `data` is a `File` with a known extension, or
+     * from the content of the data with {@link guessFormatFromContent}
+     * otherwise. The data is copied to WASM
+     * memory without intermediary copies, and this memory is released when
+     * the trajectory is closed.
+     *
+     * ```typescript
+     * const input = document.querySelector('input[type=file]');
+     * input.addEventListener('change', async () => {
+     *     using trajectory = await chemfiles.Trajectory.fromFile(input.files[0]);
+     *     using frame = new chemfiles.Frame();
+     *     trajectory.read(frame);
+     *     // [...]
+     * });
+     * ```
+     *
+     * @param  data   the file, blob or buffer containing the data
+     * @param  format format to use when reading the data
+     * @return        a {@link Trajectory} reading `data`, opened in read mode
+     */
+    public static async fromFile(
+        data: Blob | ArrayBuffer | ArrayBufferView,
+        format: string = ''
+    ): Promise<Trajectory> {
+        const filename = 'name' in data && typeof data.name === 'string' ? data.name : '';
+
+        // the chemfiles instance might change while waiting for the data
+        const instance = currentInstance();
+        const { memory, size } = await copyToMemory(instance, data);
+
+        return withInstance(instance, () => {
+            if (format === '') {
+                const content = lib.HEAPU8.subarray(memory, memory + size);
+                let guessed;
+                try {
+                    guessed = guessFileFormat(filename, content);
+                } catch (error) {
+                    lib._free(memory);
+                    throw error;
+                }
+
+                if (guessed === undefined) {
+                    lib._free(memory);
+                    throw Error(
+                        'format is required to read a Blob or ArrayBuffer without file name'
+                    );
+                }
+                format = guessed;
+            }
+            return new Trajectory(
+                filename,
+                () => openMemoryReader(memory, size, format),
+                format,
+                memory
+            );
+        });
     }
 
     /**
-     * Get the path used to open this {@link Trajectory}
+     * Get the path used to open this {@link Trajectory}. For in-memory
+     * trajectories, this is the name of the file given when creating the
+     * trajectory, if any.
      *
      * ```typescript
      * const trajectory = new chemfiles.Trajectory('path/to/file.tng');
@@ -76,11 +262,65 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * ```
      */
     get path(): string {
-        return stackAutoclean(() => {
+        const path = stackAutoclean(() => {
             return autogrowStrBuffer((ptr, size) => {
                 check(lib._chfl_trajectory_path(this.const_ptr, ptr, size, 0));
             });
         });
+        // in-memory trajectories do not have a path in chemfiles
+        return path === '' ? this._extra.jsPath ?? '' : path;
+    }
+
+    /**
+     * Get the name of the format used to read or write this
+     * {@link Trajectory}, without the compression method. When no format was
+     * given to the constructor, this is the format guessed by chemfiles from
+     * the path (see {@link guessFormat}).
+     *
+     * ```typescript
+     * const trajectory = new chemfiles.Trajectory('path/to/file.xyz.gz');
+     * assert.equal(trajectory.format, 'XYZ');
+     * trajectory.close();
+     * ```
+     */
+    get format(): string {
+        const format = this._extra.format ?? guessFormat(this._extra.jsPath ?? '');
+        return splitFormat(format).name;
+    }
+
+    /**
+     * Get the metadata of the format used to read or write this
+     * {@link Trajectory}, to check which operations and data the format
+     * supports.
+     *
+     * ```typescript
+     * const trajectory = new chemfiles.Trajectory('path/to/file.cif');
+     * assert.equal(trajectory.metadata.name, 'mmCIF');
+     * assert.equal(trajectory.metadata.velocities, false);
+     * trajectory.close();
+     * ```
+     */
+    get metadata(): FormatMetadata {
+        const format = this.format;
+        const metadata = formatsList().find((m) => m.name === format);
+        if (metadata === undefined) {
+            throw Error(`could not find metadata for the '${format}' format`);
+        }
+        return metadata;
+    }
+
+    /**
+     * Get the mode used to open this {@link Trajectory}: `'r'` for read,
+     * `'w'` for write and `'a'` for append.
+     *
+     * ```typescript
+     * const trajectory = new chemfiles.Trajectory('path/to/file.pdb', 'w');
+     * assert.equal(trajectory.mode, 'w');
+     * trajectory.close();
+     * ```
+     */
+    get mode(): string {
+        return this._extra.mode ?? 'r';
     }
 
     /**
@@ -104,45 +344,61 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * Read the next step of this {@link Trajectory} in the provided `frame`.
      *
      * ```typescript
-     * const trajectory = new chemfiles.Trajectory('trajectory.xyz');
-     * const frame = new chemfiles.Frame();
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     * using frame = new chemfiles.Frame();
      *
      * trajectory.read(frame);
      * // SCIENCE!
-     *
-     * frame.delete();
-     * trajectory.close();
      * ```
      *
-     * @param frame frame to be filled with data from the trajectory
+     * @param frame   frame to be filled with data from the trajectory
+     * @param options use `strict` to turn warnings into errors for this call,
+     *                see {@link setStrictMode}
      */
-    public read(frame: Frame): void {
-        check(lib._chfl_trajectory_read(this.ptr, frame.ptr));
+    public read(frame: Frame, options: StrictOptions = {}): void {
+        try {
+            this.withContext(() =>
+                strictOperation(options, 'chfl_trajectory_read', () =>
+                    check(lib._chfl_trajectory_read(this.ptr, frame.ptr))
+                )
+            );
+        } finally {
+            // the frame is modified even if reading fails in strict mode
+            frame.__invalidate_borrowed();
+        }
     }
 
     /**
      * Read a specific `step` of this {@link Trajectory} in the provided `frame`.
      *
      * ```typescript
-     * const trajectory = new chemfiles.Trajectory('trajectory.xyz');
-     * const frame = new chemfiles.Frame();
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     * using frame = new chemfiles.Frame();
      *
      * trajectory.readStep(13, frame);
      * // [...]
      *
      * trajectory.readStep(8, frame);
      *  // [...]
-     *
-     * frame.delete();
-     * trajectory.close();
      * ```
      *
-     * @param step  step (starting at 0) to read from the trajectory
-     * @param frame frame to be filled with data from the trajectory
+     * @param step    step (starting at 0) to read from the trajectory
+     * @param frame   frame to be filled with data from the trajectory
+     * @param options use `strict` to turn warnings into errors for this call,
+     *                see {@link setStrictMode}
      */
-    public readStep(step: number, frame: Frame): void {
+    public readStep(step: number, frame: Frame, options: StrictOptions = {}): void {
         assert(isUnsignedInteger(step), 'step must be an unsigned integer');
-        check(lib._chfl_trajectory_read_step(this.ptr, step, 0, frame.ptr));
+        try {
+            this.withContext(() =>
+                strictOperation(options, 'chfl_trajectory_read_step', () =>
+                    check(lib._chfl_trajectory_read_step(this.ptr, step, 0, frame.ptr))
+                )
+            );
+        } finally {
+            // the frame is modified even if reading fails in strict mode
+            frame.__invalidate_borrowed();
+        }
     }
 
     /**
@@ -159,10 +415,206 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * frame.delete();
      * trajectory.close();
      * ```
-     * @param frame single frame to be written
+     * &nbsp;
+     * ```typescript
+     * // warn about the information that can not be stored in this format
+     * using trajectory = new chemfiles.Trajectory('output.xyz', 'w');
+     * const { warnings } = chemfiles.withWarnings(() =>
+     *     trajectory.write(frameWithBonds, { checkCompatibility: true })
+     * );
+     * assert.equal(warnings[0].message, 'bonds will be lost when writing this frame in XYZ format');
+     * ```
+     *
+     * @param frame   single frame to be written
+     * @param options use `checkCompatibility` to warn about information that
+     *                will be lost when writing the frame, and `strict` to turn
+     *                warnings into errors for this call (see
+     *                {@link setStrictMode})
+     */
+    public write(frame: Frame, options: WriteOptions = {}): void {
+        this.withContext(() => {
+            if (options.checkCompatibility === true) {
+                // in strict mode, throw before anything is written to the file
+                strictOperation(options, 'chfl_trajectory_write', () => {
+                    const format = this.format;
+                    for (const information of checkWriteCompatibility(frame, format)) {
+                        const message = lostInformationMessage(information, format);
+                        emitWarning(message, currentInstance().warningCallback);
+                    }
+                });
+            }
+            strictOperation(options, 'chfl_trajectory_write', () => {
+                check(lib._chfl_trajectory_write(this.ptr, frame.const_ptr));
+            });
+        });
+    }
+
+    /**
+     * Iterate over all the steps in this {@link Trajectory}, starting from the
+     * first one and until the end of the trajectory. The steps are read one
+     * at a time, the iteration does not need to know the total number of
+     * steps in advance.
+     *
+     * By default, a new {@link Frame} is created for each step, which should
+     * be released with {@link Frame.delete} when no longer needed. Setting
+     * `options.reuseFrame` reads all steps in the same frame, which is
+     * released once the iteration ends, including when exiting the loop
+     * early.
+     *
+     * ```typescript
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     *
+     * for (const frame of trajectory.frames({ reuseFrame: true })) {
+     *     // the frame is only valid until the next step
+     *     console.log(frame.step, frame.size);
+     * }
+     * ```
+     *
+     * @param options options for the iteration, and `strict` to turn
+     *                warnings into errors (see {@link setStrictMode})
      */
-    public write(frame: Frame): void {
-        check(lib._chfl_trajectory_write(this.ptr, frame.const_ptr));
+    public frames(options: FramesOptions = {}): Generator<Frame, void, void> {
+        return this.readAll(options);
+    }
+
+    /**
+     * Iterate asynchronously over all the steps in this {@link Trajectory},
+     * going back to the event loop between steps. This allows reading large
+     * files without freezing the user interface in browsers. See
+     * {@link Trajectory.frames} for the available options.
+     *
+     * ```typescript
+     * using trajectory = new chemfiles.MemoryReader(data, 'PDB');
+     *
+     * for await (const frame of trajectory.framesAsync()) {
+     *     display(frame);
+     *     frame.delete();
+     * }
+     * ```
+     *
+     * @param options options for the iteration, and `strict` to turn
+     *                warnings into errors (see {@link setStrictMode})
+     */
+    public framesAsync(options: FramesOptions = {}): AsyncGenerator<Frame, void, void> {
+        return asyncFrames(this.frames(options));
+    }
+
+    /**
+     * Get a view over the steps of this {@link Trajectory} going from `start`
+     * (included) to `stop` (excluded) by increments of `step`. Only the
+     * corresponding steps are read when iterating over the view.
+     *
+     * This follows the same rules as Python slices: negative `start` and
+     * `stop` count from the end of the trajectory, out of bounds values are
+     * clamped to the trajectory size, and a negative `step` iterates over the
+     * steps backward.
+     *
+     * ```typescript
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     *
+     * // every 10th step in the trajectory
+     * for (const frame of trajectory.slice(0, undefined, 10)) {
+     *     // [...]
+     *     frame.delete();
+     * }
+     *
+     * // last 5 steps, in reverse order
+     * const last = trajectory.slice(-1, -6, -1);
+     * assert.equal(last.length, 5);
+     * ```
+     *
+     * @param  start first step in the view, defaults to the first (or last
+     *               if `step` is negative) step in the trajectory
+     * @param  stop  step at which the view stops, defaults to the end (or
+     *               start if `step` is negative) of the trajectory
+     * @param  step  increment between the steps in the view
+     * @return       a view over the requested steps
+     */
+    public slice(start?: number, stop?: number, step: number = 1): TrajectorySlice {
+        assert(Number.isInteger(step) && step !== 0, 'slice step must be a non-zero integer');
+        const range = sliceRange(this.nsteps, start, stop, step);
+        return new TrajectorySlice(this, range.start, step, range.length);
+    }
+
+    /**
+     * Read the step at the given `index` of this {@link Trajectory}. Negative
+     * indexes count from the end of the trajectory, `-1` being the last step.
+     *
+     * The step is read in `frame` if given, and in a new {@link Frame}
+     * otherwise.
+     *
+     * ```typescript
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     * using last = trajectory.at(-1);
+     * assert.equal(last.step, trajectory.nsteps - 1);
+     * ```
+     *
+     * @param  index   index of the step to read
+     * @param  frame   frame to be filled with data from the trajectory
+     * @param  options use `strict` to turn warnings into errors for this
+     *                 call, see {@link setStrictMode}
+     * @return         the frame containing the step data
+     */
+    public at(index: number, frame?: Frame, options: StrictOptions = {}): Frame {
+        assert(Number.isInteger(index), 'index must be an integer');
+        const nsteps = this.nsteps;
+        const step = index < 0 ? index + nsteps : index;
+        if (step < 0 || step >= nsteps) {
+            throw Error(
+                `out of bounds index in Trajectory: we have ${nsteps} steps, but the index is ${index}`
+            );
+        }
+        return this.readFrame(step, frame, options);
+    }
+
+    /**
+     * Iterate over all the steps in this {@link Trajectory}, creating a new
+     * {@link Frame} for each step. This is the same as calling
+     * {@link Trajectory.frames} without options.
+     *
+     * ```typescript
+     * using trajectory = new chemfiles.Trajectory('trajectory.xyz');
+     * for (const frame of trajectory) {
+     *     // [...]
+     *     frame.delete();
+     * }
+     * ```
+     */
+    public [Symbol.iterator](): Generator<Frame, void, void> {
+        return this.frames();
+    }
+
+    /**
+     * Iterate asynchronously over all the steps in this {@link Trajectory},
+     * creating a new {@link Frame} for each step. This is the same as calling
+     * {@link Trajectory.framesAsync} without options.
+     */
+    public [Symbol.asyncIterator](): AsyncGenerator<Frame, void, void> {
+        return this.framesAsync();
+    }
+
+    /** @hidden
+     * Read `length` steps, starting at `start` and going by increments of
+     * `step`. See {@link Trajectory.frames} for the options.
+     */
+    public *__readSteps(
+        start: number,
+        step: number,
+        length: number,
+        options: FramesOptions
+    ): Generator<Frame, void, void> {
+        let frame: Frame | undefined;
+        try {
+            for (let i = 0; i < length; i++) {
+                const reused = options.reuseFrame === true ? frame : undefined;
+                frame = this.readFrame(start + i * step, reused, options);
+                yield frame;
+            }
+        } finally {
+            if (options.reuseFrame === true && frame !== undefined) {
+                frame.delete();
+            }
+        }
     }
 
     /**
@@ -206,21 +658,23 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * @param format   format to use when reading the `topology` file
      */
     public setTopology(topology: string | Topology, format?: string): void {
-        stackAutoclean(() => {
-            if (typeof topology === 'string') {
-                const formatRef = stackAlloc('char*', {
-                    initial: format === undefined ? '' : format,
-                });
-                const path = stackAlloc('char*', { initial: topology });
-                check(lib._chfl_trajectory_topology_file(this.ptr, path.ptr, formatRef.ptr));
-            } else {
-                assert(
-                    format === undefined,
-                    'can not have a format when topology is not a file path'
-                );
-                check(lib._chfl_trajectory_set_topology(this.ptr, topology.const_ptr));
-            }
-        });
+        this.withContext(() =>
+            stackAutoclean(() => {
+                if (typeof topology === 'string') {
+                    const formatRef = stackAlloc('char*', {
+                        initial: format === undefined ? '' : format,
+                    });
+                    const path = stackAlloc('char*', { initial: topology });
+                    check(lib._chfl_trajectory_topology_file(this.ptr, path.ptr, formatRef.ptr));
+                } else {
+                    assert(
+                        format === undefined,
+                        'can not have a format when topology is not a file path'
+                    );
+                    check(lib._chfl_trajectory_set_topology(this.ptr, topology.const_ptr));
+                }
+            })
+        );
     }
 
     /**
@@ -249,7 +703,7 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      * @param cell unit cell to use for all read and write operations
      */
     public setCell(cell: UnitCell): void {
-        check(lib._chfl_trajectory_set_cell(this.ptr, cell.const_ptr));
+        this.withContext(() => check(lib._chfl_trajectory_set_cell(this.ptr, cell.const_ptr)));
     }
 
     /**
@@ -265,11 +719,348 @@ export class Trajectory extends Pointer<CHFL_TRAJECTORY, { jsPath: string }> {
      */
     public close(): void {
         // does the same as lib._chfl_trajectory_close
-        this.delete();
+        this.withContext(() => this.delete());
+    }
+
+    /**
+     * Close this {@link Trajectory}, as if calling {@link Trajectory.close}.
+     * This is called automatically at the end of the scope for trajectories
+     * declared with `using`.
+     */
+    public [Symbol.dispose](): void {
+        this.close();
     }
 
     /** @hidden */
     public delete(): void {
         super.delete();
+        if (this._extra.memory !== undefined) {
+            if (FINALIZER !== undefined) {
+                FINALIZER.unregister(this);
+            }
+            lib._free(this._extra.memory);
+            this._extra.memory = undefined;
+        }
+    }
+
+    /**
+     * Read all the steps one after the other, starting with the first one,
+     * until the end of the trajectory. See {@link Trajectory.frames} for the
+     * options.
+     *
+     * This uses `readStep` for all steps, since some formats do not continue
+     * from the last step read with `readStep` when calling `read`.
+     */
+    private *readAll(options: FramesOptions): Generator<Frame, void, void> {
+        let frame: Frame | undefined;
+        try {
+            for (let step = 0; ; step++) {
+                const reused = options.reuseFrame === true ? frame : undefined;
+                const next = this.readNext(step, reused, options);
+                if (next === undefined) {
+                    return;
+                }
+                frame = next;
+                yield frame;
+            }
+        } finally {
+            if (options.reuseFrame === true && frame !== undefined) {
+                frame.delete();
+            }
+        }
+    }
+
+    /**
+     * Read the given `step` in `frame`, or in a new {@link Frame} if `frame`
+     * is undefined. Returns `undefined` if `step` is after the end of the
+     * trajectory.
+     *
+     * chemfiles reports reading after the end of the trajectory as an error,
+     * the number of steps is only used to check for this case after an
+     * error, since it can be expensive to compute for some formats.
+     */
+    private readNext(
+        step: number,
+        frame: Frame | undefined,
+        options: StrictOptions
+    ): Frame | undefined {
+        return withExpectedError(
+            () => this.readFrame(step, frame, options),
+            (error) => error instanceof FileError && step >= this.nsteps
+        );
+    }
+
+    /**
+     * Read the given `step` in `frame`, or in a new {@link Frame} if `frame`
+     * is undefined. This is a separate method to ensure the frame is created
+     * with the right chemfiles instance when iterating over frames.
+     */
+    private readFrame(step: number, frame: Frame | undefined, options: StrictOptions): Frame {
+        if (frame !== undefined) {
+            this.readStep(step, frame, options);
+            return frame;
+        }
+
+        const newFrame = new Frame();
+        try {
+            this.readStep(step, newFrame, options);
+        } catch (error) {
+            newFrame.delete();
+            throw error;
+        }
+        return newFrame;
+    }
+
+    /**
+     * Call `callback`, attaching the path and format of this trajectory to
+     * all warnings emitted during the call.
+     */
+    private withContext<T>(callback: () => T): T {
+        const path = this._extra.jsPath === '' ? undefined : this._extra.jsPath;
+        return warningContext({ format: this._extra.format, path }, callback);
+    }
+}
+
+/**
+ * A view over some of the steps of a {@link Trajectory}, created with
+ * {@link Trajectory.slice}. Iterating over the view only reads the
+ * corresponding steps in the trajectory.
+ *
+ * The view does not own the trajectory, which must stay open while the view
+ * is used.
+ */
+export class TrajectorySlice {
+    private readonly _trajectory: Trajectory;
+    private readonly _start: number;
+    private readonly _step: number;
+    private readonly _length: number;
+
+    /** @hidden
+     * Create a view over `length` steps of `trajectory`, starting at `start`
+     * and going by increments of `step`. Use {@link Trajectory.slice} instead.
+     */
+    constructor(trajectory: Trajectory, start: number, step: number, length: number) {
+        this._trajectory = trajectory;
+        this._start = start;
+        this._step = step;
+        this._length = length;
+    }
+
+    /** Get the number of steps in this view */
+    get length(): number {
+        return this._length;
+    }
+
+    /** Get the indexes of the trajectory steps in this view */
+    get steps(): number[] {
+        const steps = [];
+        for (let i = 0; i < this._length; i++) {
+            steps.push(this._start + i * this._step);
+        }
+        return steps;
+    }
+
+    /**
+     * Read the step at the given `index` in this view, see
+     * {@link Trajectory.at}.
+     *
+     * @param  index   index of the step to read, negative indexes count from
+     *                 the end of the view
+     * @param  frame   frame to be filled with data from the trajectory
+     * @param  options use `strict` to turn warnings into errors for this
+     *                 call, see {@link setStrictMode}
+     * @return         the frame containing the step data
+     */
+    public at(index: number, frame?: Frame, options: StrictOptions = {}): Frame {
+        assert(Number.isInteger(index), 'index must be an integer');
+        const position = index < 0 ? index + this._length : index;
+        if (position < 0 || position >= this._length) {
+            throw Error(
+                `out of bounds index in TrajectorySlice: we have ${this._length} steps, but the index is ${index}`
+            );
+        }
+        return this._trajectory.at(this._start + position * this._step, frame, options);
+    }
+
+    /**
+     * Iterate over the steps in this view, see {@link Trajectory.frames}.
+     *
+     * @param options options for the iteration, and `strict` to turn
+     *                warnings into errors (see {@link setStrictMode})
+     */
+    public frames(options: FramesOptions = {}): Generator<Frame, void, void> {
+        return this._trajectory.__readSteps(this._start, this._step, this._length, options);
+    }
+
+    /**
+     * Iterate asynchronously over the steps in this view, see
+     * {@link Trajectory.framesAsync}.
+     *
+     * @param options options for the iteration, and `strict` to turn
+     *                warnings into errors (see {@link setStrictMode})
+     */
+    public framesAsync(options: FramesOptions = {}): AsyncGenerator<Frame, void, void> {
+        return asyncFrames(this.frames(options));
+    }
+
+    /** Iterate over the steps in this view, creating a new {@link Frame} for each step */
+    public [Symbol.iterator](): Generator<Frame, void, void> {
+        return this.frames();
+    }
+
+    /**
+     * Iterate asynchronously over the steps in this view, creating a new
+     * {@link Frame} for each step
+     */
+    public [Symbol.asyncIterator](): AsyncGenerator<Frame, void, void> {
+        return this.framesAsync();
+    }
+}
+
+/**
+ * Get the first step and number of steps for a Python-like slice over a
+ * trajectory containing `nsteps` steps.
+ */
+function sliceRange(
+    nsteps: number,
+    start: number | undefined,
+    stop: number | undefined,
+    step: number
+): { start: number; length: number } {
+    const lower = step > 0 ? 0 : -1;
+    const upper = step > 0 ? nsteps : nsteps - 1;
+    const normalize = (value: number | undefined, fallback: number): number => {
+        if (value === undefined) {
+            return fallback;
+        }
+        assert(Number.isInteger(value), 'slice start and stop must be integers');
+        if (value < 0) {
+            value += nsteps;
+        }
+        return Math.min(Math.max(value, lower), upper);
+    };
+
+    const first = normalize(start, step > 0 ? lower : upper);
+    const last = normalize(stop, step > 0 ? upper : lower);
+    return { length: Math.max(0, Math.ceil((last - first) / step)), start: first };
+}
+
+/** @hidden
+ * Open a trajectory reading the `size` bytes at `memory` with the given
+ * `format`. The memory must stay alive until the trajectory is closed.
+ */
+export function openMemoryReader(
+    memory: c_char_ptr,
+    size: number,
+    format: string
+): CHFL_TRAJECTORY {
+    return stackAutoclean(() => {
+        const formatRef = stackAlloc('char*', { initial: format });
+        return lib._chfl_trajectory_memory_reader(memory, size, 0, formatRef.ptr);
+    });
+}
+
+/**
+ * Get the status code corresponding to a failure to open the trajectory at
+ * `path` with the given `format`, in memory if `inMemory` is `true`. The C API
+ * does not give this status, so the format is checked separately.
+ */
+function openStatus(path: string, format: string | undefined, inMemory: boolean): number {
+    if (format === undefined || format === '') {
+        try {
+            // the warning is already part of the error for opening the file
+            withWarnings(() => guessFormat(path));
+        } catch (error) {
+            if (error instanceof ChemfilesError) {
+                return error.status;
+            }
+        }
+        return CHFL_FILE_ERROR;
+    }
+
+    const name = splitFormat(format).name;
+    const metadata = formatsList().find((m) => m.name === name);
+    if (metadata === undefined || (inMemory && !metadata.memory)) {
+        return CHFL_FORMAT_ERROR;
+    }
+    return CHFL_FILE_ERROR;
+}
+
+/**
+ * Copy `data` to newly allocated WASM memory in the given `instance`. `Blob`
+ * are streamed directly to WASM memory, without reading the whole data in
+ * JavaScript memory first.
+ */
+async function copyToMemory(
+    instance: Instance,
+    data: Blob | ArrayBuffer | ArrayBufferView
+): Promise<{ memory: c_char_ptr; size: number }> {
+    const wasm = instance.lib;
+    if (wasm === undefined) {
+        throw Error('chemfiles is not initialized');
+    }
+
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        const bytes = ArrayBuffer.isView(data)
+            ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+            : new Uint8Array(data);
+        const memory = wasm._malloc(Math.max(bytes.length, 1)) as c_char_ptr;
+        wasm.HEAPU8.set(bytes, memory);
+        return { memory, size: bytes.length };
+    }
+
+    const size = data.size;
+    const memory = wasm._malloc(Math.max(size, 1)) as c_char_ptr;
+    try {
+        const reader = data.stream().getReader();
+        let offset = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            assert(offset + value.length <= size, 'the Blob was modified while reading it');
+            // get HEAPU8 again every time, since WASM memory can grow while
+            // waiting for the next chunk
+            wasm.HEAPU8.set(value, memory + offset);
+            offset += value.length;
+        }
+        return { memory, size: offset };
+    } catch (error) {
+        wasm._free(memory);
+        throw error;
+    }
+}
+
+/**
+ * Wait for the next task of the event loop. Browsers wait at least 4 ms
+ * before running nested `setTimeout` callbacks, so this uses a
+ * `MessageChannel` when available.
+ */
+function nextTask(): Promise<void> {
+    if (typeof MessageChannel === 'undefined') {
+        return new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    return new Promise((resolve) => {
+        const channel = new MessageChannel();
+        channel.port1.onmessage = () => {
+            channel.port1.close();
+            resolve();
+        };
+        channel.port2.postMessage(undefined);
+    });
+}
+
+/**
+ * Iterate asynchronously over `frames`, going back to the event loop between
+ * frames.
+ */
+async function* asyncFrames(
+    frames: Generator<Frame, void, void>
+): AsyncGenerator<Frame, void, void> {
+    for (const frame of frames) {
+        yield frame;
+        await nextTask();
     }
 }
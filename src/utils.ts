@@ -1,7 +1,7 @@
 import { CHFL_SUCCESS, c_char_ptr, chfl_status } from './libchemfiles';
 import { lib } from './misc';
 
-import { lastError } from './misc';
+import { statusError } from './errors';
 import { getValue, stackAlloc } from './stack';
 
 /** Simple 3D vector */
@@ -46,7 +46,7 @@ export function check(status: chfl_status): void {
     if (status === CHFL_SUCCESS) {
         return;
     } else {
-        throw Error(lastError());
+        throw statusError(status);
     }
 }
 
@@ -0,0 +1,213 @@
+import { WarningCallback, currentInstance } from './misc';
+
+import { WarningError } from './errors';
+
+/** A warning emitted by chemfiles, as captured by {@link withWarnings} */
+export interface Warning {
+    /** Text of the warning */
+    message: string;
+    /** Path of the trajectory emitting this warning, if any */
+    path?: string;
+    /** Format of the trajectory emitting this warning, if known */
+    format?: string;
+}
+
+/** Options for functions which can run in strict mode */
+export interface StrictOptions {
+    /**
+     * Should warnings emitted by this function be turned into errors? This
+     * defaults to the global value set with {@link setStrictMode}.
+     */
+    strict?: boolean;
+}
+
+/** @hidden
+ * Information attached to the warnings emitted during an operation
+ */
+export interface WarningContext {
+    path?: string;
+    format?: string;
+}
+
+// stack of contexts for the currently running operations
+const CONTEXTS: WarningContext[] = [];
+// stack of warnings lists for the currently running `withWarnings` calls
+const COLLECTORS: Warning[][] = [];
+
+/** @hidden
+ * Call `callback`, attaching the given `context` to all warnings emitted
+ * during the call.
+ */
+export function warningContext<T>(context: WarningContext, callback: () => T): T {
+    CONTEXTS.push(context);
+    try {
+        return callback();
+    } finally {
+        CONTEXTS.pop();
+    }
+}
+
+/** @hidden
+ * Send a warning with the given `message` to the innermost call to
+ * {@link withWarnings}, or to `callback` if there is no such call.
+ */
+export function emitWarning(message: string, callback: WarningCallback): void {
+    if (COLLECTORS.length === 0) {
+        callback(message);
+        return;
+    }
+
+    const warning: Warning = { message };
+    for (let i = CONTEXTS.length - 1; i >= 0; i--) {
+        const context = CONTEXTS[i];
+        warning.path = warning.path ?? context.path;
+        warning.format = warning.format ?? context.format;
+    }
+    COLLECTORS[COLLECTORS.length - 1].push(warning);
+}
+
+/**
+ * Call the given `callback`, and collect all the warnings emitted by
+ * chemfiles during the call instead of sending them to the warning callback
+ * (see {@link setWarningCallback}).
+ *
+ * Warnings emitted by a {@link Trajectory} contain the path of the
+ * corresponding file, and the format used to read it when it was explicitly
+ * given. When calls to `withWarnings` are nested, warnings are only collected
+ * by the innermost call. If the `callback` throws, the exception is
+ * propagated and the warnings are discarded.
+ *
+ * ```typescript doctest
+ * const atom = new chemfiles.Atom('C');
+ *
+ * const { result, warnings } = chemfiles.withWarnings(() => atom.get('foo'));
+ * assert.equal(result, undefined);
+ * assert.equal(warnings.length, 1);
+ * assert.equal(warnings[0].message, "can not find a property named 'foo' in this atom");
+ *
+ * atom.delete();
+ * ```
+ *
+ * @param  callback function to call while collecting warnings
+ * @return          the value returned by `callback` and the list of warnings
+ */
+export function withWarnings<T>(callback: () => T): { result: T; warnings: Warning[] } {
+    const warnings: Warning[] = [];
+    COLLECTORS.push(warnings);
+    try {
+        const result = callback();
+        return { result, warnings };
+    } finally {
+        COLLECTORS.pop();
+    }
+}
+
+/** @hidden
+ * Call `callback`, and return `undefined` if it throws an error for which
+ * `expected(error)` is `true`. chemfiles sends the message of all errors as
+ * warnings, the warnings emitted during the call are dropped for expected
+ * errors and emitted as usual otherwise.
+ */
+export function withExpectedError<T>(
+    callback: () => T,
+    expected: (error: unknown) => boolean
+): T | undefined {
+    const warnings: Warning[] = [];
+    COLLECTORS.push(warnings);
+    let result;
+    try {
+        result = callback();
+    } catch (error) {
+        COLLECTORS.pop();
+        if (expected(error)) {
+            return undefined;
+        }
+        forwardWarnings(warnings);
+        throw error;
+    }
+
+    COLLECTORS.pop();
+    forwardWarnings(warnings);
+    return result;
+}
+
+/**
+ * Send `warnings` collected by {@link withExpectedError} to the innermost
+ * call to {@link withWarnings}, or to the warning callback if there is no
+ * such call.
+ */
+function forwardWarnings(warnings: Warning[]): void {
+    for (const warning of warnings) {
+        if (COLLECTORS.length === 0) {
+            currentInstance().warningCallback(warning.message);
+        } else {
+            COLLECTORS[COLLECTORS.length - 1].push(warning);
+        }
+    }
+}
+
+/**
+ * Enable or disable strict mode. In strict mode, any warning emitted while
+ * reading or writing a {@link Trajectory}, evaluating a {@link Selection} or
+ * reading configuration files with {@link addConfiguration} makes the
+ * corresponding function throw a {@link WarningError} containing the text of
+ * the warning. Strict mode can also be enabled or disabled for a single call,
+ * using the `strict` option of these functions.
+ *
+ * Strict mode is disabled by default.
+ *
+ * ```typescript
+ * chemfiles.setStrictMode(true);
+ *
+ * using trajectory = new chemfiles.Trajectory('file-with-unknown-records.pdb');
+ * using frame = new chemfiles.Frame();
+ * try {
+ *     trajectory.read(frame);
+ * } catch (error) {
+ *     assert(error instanceof chemfiles.WarningError);
+ * }
+ *
+ * // disable strict mode for a single call
+ * trajectory.readStep(0, frame, { strict: false });
+ * ```
+ *
+ * @param strict whether strict mode should be enabled
+ */
+export function setStrictMode(strict: boolean): void {
+    currentInstance().strict = strict;
+}
+
+/** @hidden
+ * Call `callback` in strict mode if `options.strict` (or the global strict
+ * mode when `options.strict` is undefined) is `true`. `operation` is the name
+ * of the chemfiles C API function called by `callback`, used in errors.
+ *
+ * Warnings can not be turned into exceptions directly when they are emitted,
+ * since this would unwind the WASM stack without releasing resources on the
+ * C++ side. Instead, the warnings are collected and an error containing
+ * them is thrown once the C++ code has returned.
+ */
+export function strictOperation<T>(
+    options: StrictOptions,
+    operation: string,
+    callback: () => T
+): T {
+    const strict = options.strict ?? currentInstance().strict;
+    if (!strict) {
+        return callback();
+    }
+
+    const warnings: Warning[] = [];
+    COLLECTORS.push(warnings);
+    let result;
+    try {
+        result = callback();
+    } finally {
+        COLLECTORS.pop();
+    }
+
+    if (warnings.length !== 0) {
+        throw new WarningError(warnings, operation);
+    }
+    return result;
+}
@@ -0,0 +1,260 @@
+/// <reference lib="dom" />
+
+import { FS, InitOptions, formatsList, init } from './misc';
+
+import { MemoryReader, temporaryPath } from './browser';
+import { CellShape } from './cell';
+import { splitFormat } from './compression';
+import { ChemfilesError } from './errors';
+import { Frame } from './frame';
+import { guessFileFormat } from './guess';
+import { scope } from './scope';
+import { Trajectory } from './trajectory';
+import { Vector3D } from './utils';
+
+/**
+ * Minimal interface shared by `Worker`, `MessagePort` and the global scope of
+ * a worker, used to exchange messages between the main thread and a worker.
+ */
+export interface MessageTarget {
+    postMessage(message: unknown, transfer: Transferable[]): void;
+    addEventListener(
+        type: 'message' | 'messageerror',
+        listener: (event: MessageEvent) => void
+    ): void;
+    /** Errors in the worker script, only used with `Worker` */
+    addEventListener(type: 'error', listener: (event: Event) => void): void;
+    /** Start receiving messages, only required for `MessagePort` */
+    start?(): void;
+}
+
+/** Summary of the topology of a frame, as sent by the trajectory worker */
+export interface TopologySummary {
+    /** Name of all atoms in the frame */
+    names: string[];
+    /** Type of all atoms in the frame */
+    types: string[];
+    /**
+     * Bonds in the frame, as a flat list of atomic indexes
+     * `[i0, j0, i1, j1, ...]`
+     */
+    bonds: Uint32Array;
+}
+
+/** Unit cell of a frame, as sent by the trajectory worker */
+export interface CellData {
+    /** Lengths of the unit cell, in Ångströms */
+    lengths: Vector3D;
+    /** Angles of the unit cell, in degrees */
+    angles: Vector3D;
+    /** Shape of the unit cell */
+    shape: CellShape;
+    /** Unit cell matrix, as a flat row-major 3x3 matrix */
+    matrix: Float64Array;
+}
+
+/** Data contained in a frame, as sent by the trajectory worker */
+export interface FrameData {
+    /** Step of the frame in the trajectory */
+    step: number;
+    /** Number of atoms in the frame */
+    size: number;
+    /** Positions of the atoms, as `[x0, y0, z0, x1, y1, z1, ...]` */
+    positions: Float64Array;
+    /** Velocities of the atoms, if the frame contains velocities */
+    velocities?: Float64Array;
+    /** Unit cell of the frame */
+    cell: CellData;
+    /** Topology of the frame */
+    topology: TopologySummary;
+}
+
+/** @hidden
+ * Requests sent to the trajectory worker
+ */
+export type WorkerRequest =
+    | { id: number; type: 'open'; source: string | Uint8Array; format: string; filename: string }
+    | { id: number; type: 'read'; trajectory: number }
+    | { id: number; type: 'readStep'; trajectory: number; step: number }
+    | { id: number; type: 'nsteps'; trajectory: number }
+    | { id: number; type: 'close'; trajectory: number };
+
+/** @hidden
+ * Responses sent by the trajectory worker
+ */
+export type WorkerResponse =
+    | { id: number; result: unknown }
+    | { id: number; error: string; status?: number; operation?: string };
+
+interface OpenTrajectory {
+    trajectory: Trajectory;
+    frame: Frame;
+    // temporary file containing the data of the trajectory, if any
+    file?: string;
+}
+
+/**
+ * Open a trajectory reading `data`, with the given `format` and `filename`.
+ * Formats which can not be read from memory (DCD, XTC, TRR, ...) are written
+ * to a temporary file, which must be removed after closing the trajectory.
+ */
+function openData(
+    data: Uint8Array,
+    format: string,
+    filename: string
+): Omit<OpenTrajectory, 'frame'> {
+    const name = splitFormat(format === '' ? guessFileFormat(filename, data) ?? '' : format).name;
+    const metadata = formatsList().find((m) => m.name === name);
+    if (metadata === undefined || metadata.memory) {
+        // MemoryReader reports errors with the format
+        return { trajectory: new MemoryReader(data, format, filename) };
+    }
+
+    const file = temporaryPath();
+    FS.writeFile(file, data);
+    try {
+        return { file, trajectory: new Trajectory(file, 'r', format === '' ? name : format) };
+    } catch (error) {
+        FS.unlink(file);
+        throw error;
+    }
+}
+
+/**
+ * Extract all the data in `frame`, returning it together with the list of
+ * buffers that can be transferred to the main thread.
+ */
+function frameData(frame: Frame): [FrameData, Transferable[]] {
+    return scope(() => {
+        const size = frame.size;
+        const positions = frame.getPositions();
+        const velocities = frame.getVelocities();
+
+        const cell = frame.cell();
+        const cellMatrix = cell.matrix;
+        const [a, b, c] = [cellMatrix[0], cellMatrix[1], cellMatrix[2]];
+        const matrix = new Float64Array([a[0], a[1], a[2], b[0], b[1], b[2], c[0], c[1], c[2]]);
+
+        const names = [];
+        const types = [];
+        for (let i = 0; i < size; i++) {
+            const atom = frame.atom(i);
+            names.push(atom.name);
+            types.push(atom.type);
+            atom.delete();
+        }
+
+        const bondsList = frame.topology().bonds;
+        const bonds = new Uint32Array(2 * bondsList.length);
+        bondsList.forEach((bond, i) => bonds.set(bond, 2 * i));
+
+        const data: FrameData = {
+            cell: { angles: cell.angles, lengths: cell.lengths, matrix, shape: cell.shape },
+            positions,
+            size,
+            step: frame.step,
+            topology: { bonds, names, types },
+        };
+
+        const transfer: Transferable[] = [positions.buffer, matrix.buffer, bonds.buffer];
+        if (velocities !== undefined) {
+            data.velocities = velocities;
+            transfer.push(velocities.buffer);
+        }
+
+        return [data, transfer];
+    });
+}
+
+/**
+ * Start handling requests from {@link AsyncTrajectory} in the current worker.
+ * This function should be called in the worker script, and loads chemfiles in
+ * the worker with the given `options`.
+ *
+ * ```typescript
+ * // in worker.js
+ * importScripts('chemfiles.min.js');
+ * chemfiles.startTrajectoryWorker();
+ *
+ * // in the main thread
+ * const trajectory = await chemfiles.AsyncTrajectory.open('worker.js', data, 'XTC');
+ * ```
+ *
+ * @param options options used to load chemfiles in the worker
+ * @param port    where to receive messages from, defaults to the global
+ *                scope of the current worker
+ */
+export function startTrajectoryWorker(
+    options: InitOptions = {},
+    port: MessageTarget = self as unknown as MessageTarget
+): void {
+    const trajectories = new Map<number, OpenTrajectory>();
+    let nextTrajectory = 0;
+
+    const getTrajectory = (id: number): OpenTrajectory => {
+        const open = trajectories.get(id);
+        if (open === undefined) {
+            throw Error('this trajectory is closed');
+        }
+        return open;
+    };
+
+    const handle = (request: WorkerRequest): [unknown, Transferable[]] => {
+        switch (request.type) {
+            case 'open': {
+                const open =
+                    typeof request.source === 'string'
+                        ? { trajectory: new Trajectory(request.source, 'r', request.format) }
+                        : openData(request.source, request.format, request.filename);
+                const id = nextTrajectory++;
+                trajectories.set(id, { ...open, frame: new Frame() });
+                return [id, []];
+            }
+            case 'read': {
+                const { trajectory, frame } = getTrajectory(request.trajectory);
+                trajectory.read(frame);
+                return frameData(frame);
+            }
+            case 'readStep': {
+                const { trajectory, frame } = getTrajectory(request.trajectory);
+                trajectory.readStep(request.step, frame);
+                return frameData(frame);
+            }
+            case 'nsteps':
+                return [getTrajectory(request.trajectory).trajectory.nsteps, []];
+            case 'close': {
+                const { trajectory, frame, file } = getTrajectory(request.trajectory);
+                trajectories.delete(request.trajectory);
+                frame.delete();
+                trajectory.close();
+                if (file !== undefined) {
+                    FS.unlink(file);
+                }
+                return [undefined, []];
+            }
+        }
+    };
+
+    const initialized = init(options);
+    port.addEventListener('message', (event) => {
+        const request = event.data as WorkerRequest;
+        initialized
+            .then(() => {
+                const [result, transfer] = handle(request);
+                const response: WorkerResponse = { id: request.id, result };
+                port.postMessage(response, transfer);
+            })
+            .catch((error: Error) => {
+                const response: WorkerResponse = { error: error.message, id: request.id };
+                if (error instanceof ChemfilesError) {
+                    response.status = error.status;
+                    response.operation = error.operation;
+                }
+                port.postMessage(response, []);
+            });
+    });
+
+    if (port.start !== undefined) {
+        port.start();
+    }
+}
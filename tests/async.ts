@@ -0,0 +1,135 @@
+import path from 'path';
+
+import { AsyncTrajectory, FileError, MessageTarget, ready, startTrajectoryWorker } from 'chemfiles';
+
+import { assert } from './utils';
+
+import { DATA_ROOT, readDataFile, setupDataFiles } from './data';
+
+describe('AsyncTrajectory', () => {
+    // use a MessageChannel to emulate a worker running in the same thread
+    let CHANNEL: MessageChannel;
+    let WORKER: MessageTarget;
+
+    before((done) => {
+        ready(() => {
+            setupDataFiles()
+                .then(() => done())
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
+
+        CHANNEL = new MessageChannel();
+        startTrajectoryWorker({}, CHANNEL.port2);
+        WORKER = CHANNEL.port1;
+    });
+
+    after(() => {
+        CHANNEL.port1.close();
+        CHANNEL.port2.close();
+    });
+
+    it('can read files', async () => {
+        const trajectory = await AsyncTrajectory.open(WORKER, path.join(DATA_ROOT, 'water.xyz'));
+        assert.equal(await trajectory.nsteps(), 100);
+
+        const frame = await trajectory.read();
+        assert.equal(frame.step, 0);
+        assert.equal(frame.size, 297);
+        assert.instanceOf(frame.positions, Float64Array);
+        assert.equal(frame.positions.length, 3 * 297);
+        const [x, y, z] = frame.positions;
+        assert.arrayEqual([x, y, z], [0.417219, 8.303366, 11.737172], 1e-6);
+        assert.equal(frame.velocities, undefined);
+        assert.equal(frame.topology.names[0], 'O');
+        assert.equal(frame.topology.types[1], 'H');
+
+        const next = await trajectory.readStep(41);
+        assert.equal(next.step, 41);
+        const [nextX, nextY, nextZ] = next.positions;
+        assert.arrayEqual([nextX, nextY, nextZ], [0.761277, 8.106125, 10.622949], 1e-6);
+
+        await trajectory.close();
+        await trajectory.close();
+    });
+
+    it('can read memory buffers', async () => {
+        const trajectory = await AsyncTrajectory.open(WORKER, readDataFile('co2.xyz'), 'XYZ');
+        const frame = await trajectory.read();
+
+        assert.equal(frame.size, 3);
+        assert.deepEqual(frame.topology.names, ['C', 'O', 'O']);
+        assert.deepEqual(Array.from(frame.positions), [0, 0, 0, 0, 0, -1, 0, 0, 1]);
+        assert.deepEqual(Array.from(frame.cell.matrix), [0, 0, 0, 0, 0, 0, 0, 0, 0]);
+        assert.equal(frame.topology.bonds.length, 0);
+
+        await trajectory.close();
+    });
+
+    it('can read binary formats from memory', async () => {
+        const data = readDataFile('water.trr');
+        const trajectory = await AsyncTrajectory.open(WORKER, data, '', 'water.trr');
+        // the data was transferred to the worker
+        assert.equal(data.byteLength, 0);
+
+        assert.equal(await trajectory.nsteps(), 100);
+        const frame = await trajectory.readStep(41);
+        assert.equal(frame.size, 297);
+        const [x, y, z] = frame.positions;
+        assert.arrayEqual([x, y, z], [0.761277, 8.106125, 10.622949], 1e-6);
+
+        await trajectory.close();
+    });
+
+    it('reports errors', async () => {
+        try {
+            await AsyncTrajectory.open(WORKER, 'not-here.xyz');
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            // eslint-disable-next-line no-extra-parens
+            assert.include((error as Error).message, 'not-here.xyz');
+            assert.instanceOf(error, FileError);
+        }
+
+        const trajectory = await AsyncTrajectory.open(WORKER, readDataFile('co2.xyz'), 'XYZ');
+        await trajectory.close();
+        try {
+            await trajectory.read();
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            // eslint-disable-next-line no-extra-parens
+            assert.equal((error as Error).message, 'this AsyncTrajectory is closed');
+        }
+    });
+
+    it('rejects pending requests when the worker fails', async () => {
+        // worker never answering requests, and failing on demand
+        const listeners: Record<string, (event: unknown) => void> = {};
+        const worker: MessageTarget = {
+            addEventListener: (type: string, listener: (event: never) => void) => {
+                listeners[type] = listener as (event: unknown) => void;
+            },
+            postMessage: () => undefined,
+        };
+
+        const pending = AsyncTrajectory.open(worker, 'water.xyz');
+        listeners.error({ message: 'something went wrong' });
+
+        const expected = 'error in the trajectory worker: something went wrong';
+        try {
+            await pending;
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            // eslint-disable-next-line no-extra-parens
+            assert.equal((error as Error).message, expected);
+        }
+
+        try {
+            await AsyncTrajectory.open(worker, 'water.xyz');
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            // eslint-disable-next-line no-extra-parens
+            assert.equal((error as Error).message, expected);
+        }
+    });
+});
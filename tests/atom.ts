@@ -1,4 +1,6 @@
-import { Atom, Vector3D, ready } from 'chemfiles';
+/// <reference lib="es2021.weakref" />
+
+import { Atom, Vector3D, lib, ready } from 'chemfiles';
 
 import { assert, disableWarnings } from './utils';
 
@@ -22,6 +24,73 @@ describe('Atom', () => {
         copy.delete();
     });
 
+    it('can be deleted multiple times', () => {
+        const atom = new Atom('He');
+        const copy = Atom.clone(atom);
+        assert.instanceOf(copy, Atom);
+
+        atom.delete();
+        atom.delete();
+        assert.throwWith(() => atom.name, 'trying to access an object after calling delete()');
+
+        assert.equal(copy.name, 'He');
+        copy.delete();
+        copy.delete();
+    });
+
+    it('is released when garbage collected', async function () {
+        // this requires node's --expose-gc, set in the mocha configuration
+        const gc = (globalThis as { gc?: () => void }).gc;
+        if (gc === undefined || typeof FinalizationRegistry === 'undefined') {
+            this.skip();
+        }
+
+        // run the garbage collector until `ptr` is released
+        const collect = async (ptr: number) => {
+            for (let i = 0; i < 10 && !freed.includes(ptr); i++) {
+                gc();
+                // finalization callbacks run in a separate task
+                await new Promise((resolve) => setTimeout(resolve, 0));
+            }
+        };
+
+        // record all calls to chfl_free, which was already called by the
+        // previous tests and is stored in a data property
+        type Free = typeof lib._chfl_free;
+        let freed: number[] = [];
+        const descriptor = Object.getOwnPropertyDescriptor(lib, '_chfl_free') as PropertyDescriptor;
+        const free = descriptor.value as Free;
+        Object.defineProperty(lib, '_chfl_free', {
+            ...descriptor,
+            value: (ptr: Parameters<Free>[0]) => {
+                freed.push(ptr);
+                return free(ptr);
+            },
+        });
+
+        try {
+            // the atom is only reachable inside this function
+            const ptr = (() => new Atom('He').ptr)();
+            await collect(ptr);
+            assert.equal(freed.filter((p) => p === ptr).length, 1);
+
+            // explicitly deleted objects are not released again
+            freed = [];
+            const [deleted, collected] = (() => {
+                const atom = new Atom('He');
+                const atomPtr = atom.ptr;
+                atom.delete();
+                return [atomPtr, new Atom('He').ptr];
+            })();
+            // both atoms are garbage collected at the same time
+            await collect(collected);
+            assert.include(freed, collected);
+            assert.equal(freed.filter((p) => p === deleted).length, 1);
+        } finally {
+            Object.defineProperty(lib, '_chfl_free', descriptor);
+        }
+    });
+
     it('has a name', () => {
         const atom = new Atom('He');
         assert.equal(atom.name, 'He');
@@ -1,17 +1,45 @@
-import { Atom, FS, Frame, MemoryReader, MemoryWriter, ready } from 'chemfiles';
+import {
+    Atom,
+    FS,
+    FileError,
+    Frame,
+    MemoryReader,
+    MemoryWriter,
+    Trajectory,
+    ready,
+} from 'chemfiles';
 
 import { assert } from './utils';
 
-const TEST_XYZ_DATA = new TextEncoder().encode(`3
+import { readDataFile, setupDataFiles } from './data';
 
-C 0 0 0
-O 0 0 -1
-O 0 0 1
-`);
+// content of the co2.xyz data file, loaded before running the tests
+let TEST_XYZ_DATA: Uint8Array;
+
+// TEST_XYZ_DATA compressed with gzip and bzip2
+const TEST_XYZ_GZ = new Uint8Array([
+    0x1f, 0x8b, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x02, 0x03, 0x33, 0xe6, 0xe2, 0x72, 0x56, 0x30,
+    0x00, 0x41, 0x2e, 0x7f, 0x30, 0xad, 0x6b, 0x08, 0x65, 0x18, 0x72, 0x01, 0x00, 0x5f, 0x52, 0x08,
+    0x33, 0x1c, 0x00, 0x00, 0x00,
+]);
+const TEST_XYZ_BZ2 = new Uint8Array([
+    0x42, 0x5a, 0x68, 0x39, 0x31, 0x41, 0x59, 0x26, 0x53, 0x59, 0x13, 0xfc, 0x3b, 0x08, 0x00, 0x00,
+    0x0c, 0x5c, 0x00, 0x00, 0x10, 0x40, 0x02, 0x68, 0x00, 0x08, 0x00, 0xa0, 0x00, 0x31, 0x0c, 0x08,
+    0x12, 0x8d, 0x1a, 0x68, 0xda, 0x6a, 0xc2, 0x4b, 0x47, 0x50, 0x4e, 0x0f, 0x17, 0x72, 0x45, 0x38,
+    0x50, 0x90, 0x13, 0xfc, 0x3b, 0x08,
+]);
 
 describe('MemoryReader', () => {
     before((done) => {
-        ready(() => done());
+        ready(() => {
+            setupDataFiles()
+                .then(() => {
+                    TEST_XYZ_DATA = readDataFile('co2.xyz');
+                    done();
+                })
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
     });
 
     it('works with a format', () => {
@@ -31,6 +59,7 @@ describe('MemoryReader', () => {
 
         trajectory.read(frame);
         assert.equal(frame.size, 3);
+        assert.equal(trajectory.path, 'test.xyz');
 
         trajectory.remove();
         frame.delete();
@@ -47,6 +76,88 @@ describe('MemoryReader', () => {
         frame.delete();
     });
 
+    it('copies the data', () => {
+        const data = TEST_XYZ_DATA.slice();
+        const trajectory = new MemoryReader(data, 'XYZ');
+        const frame = new Frame();
+
+        data.fill(0);
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        assert.equal(trajectory.path, '');
+
+        trajectory.close();
+        frame.delete();
+    });
+
+    it('detects compressed data', () => {
+        const frame = new Frame();
+        for (const data of [TEST_XYZ_GZ, TEST_XYZ_BZ2]) {
+            const trajectory = new MemoryReader(data, 'XYZ');
+            trajectory.read(frame);
+            assert.equal(frame.size, 3);
+            trajectory.close();
+        }
+
+        const trajectory = new MemoryReader(TEST_XYZ_GZ, '', 'test.xyz.gz');
+        assert.equal(trajectory.format, 'XYZ');
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        trajectory.close();
+
+        frame.delete();
+    });
+
+    it('uses explicit compression', () => {
+        const frame = new Frame();
+
+        let trajectory = new MemoryReader(TEST_XYZ_BZ2, 'XYZ', 'test.xyz.gz', {
+            compression: 'BZ2',
+        });
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        trajectory.close();
+
+        trajectory = new MemoryReader(TEST_XYZ_DATA, '', 'test.xyz.gz', { compression: 'none' });
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        trajectory.close();
+
+        frame.delete();
+    });
+
+    it('guesses the format from the content', () => {
+        const trajectory = new MemoryReader(TEST_XYZ_DATA);
+        assert.equal(trajectory.format, 'XYZ');
+        assert.equal(trajectory.mode, 'r');
+        const frame = new Frame();
+
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+
+        trajectory.close();
+        frame.delete();
+    });
+
+    it('guesses the format from the content without file extension', () => {
+        const frame = new Frame();
+        for (const filename of ['pasted', 'water.txt']) {
+            const trajectory = new MemoryReader(TEST_XYZ_DATA, '', filename);
+            assert.equal(trajectory.format, 'XYZ');
+            assert.equal(trajectory.path, filename);
+
+            trajectory.read(frame);
+            assert.equal(frame.size, 3);
+            trajectory.close();
+        }
+        frame.delete();
+
+        assert.throwWith(
+            () => new MemoryReader(new Uint8Array(), '', 'water.txt'),
+            "can not find a format associated with the '.txt' extension"
+        );
+    });
+
     it('fails without format & path', () => {
         assert.throwWith(
             () => new MemoryReader(new Uint8Array()),
@@ -55,6 +166,101 @@ describe('MemoryReader', () => {
     });
 });
 
+describe('Trajectory.fromFile', () => {
+    before((done) => {
+        ready(() => {
+            setupDataFiles()
+                .then(() => {
+                    TEST_XYZ_DATA = readDataFile('co2.xyz');
+                    done();
+                })
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
+    });
+
+    it('can read blobs', async () => {
+        const trajectory = await Trajectory.fromFile(new Blob([TEST_XYZ_DATA]), 'XYZ');
+        const frame = new Frame();
+
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        assert.equal(trajectory.path, '');
+
+        trajectory.close();
+        frame.delete();
+    });
+
+    it('uses the file name to guess the format', async () => {
+        const file = new File([TEST_XYZ_DATA], 'test.xyz');
+        const trajectory = await Trajectory.fromFile(file);
+        const frame = new Frame();
+
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        assert.equal(trajectory.path, 'test.xyz');
+
+        trajectory.close();
+        frame.delete();
+    });
+
+    it('uses the content to guess the format', async () => {
+        const trajectory = await Trajectory.fromFile(new Blob([TEST_XYZ_DATA]));
+        const frame = new Frame();
+
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+
+        trajectory.close();
+        frame.delete();
+    });
+
+    it('uses the content to guess the format without file extension', async () => {
+        const frame = new Frame();
+        for (const filename of ['water', 'water.txt']) {
+            const file = new File([TEST_XYZ_DATA], filename);
+            const trajectory = await Trajectory.fromFile(file);
+            assert.equal(trajectory.format, 'XYZ');
+
+            trajectory.read(frame);
+            assert.equal(frame.size, 3);
+            trajectory.close();
+        }
+        frame.delete();
+    });
+
+    it('can read buffers', async () => {
+        const frame = new Frame();
+
+        let trajectory = await Trajectory.fromFile(TEST_XYZ_DATA.slice().buffer, 'XYZ');
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        trajectory.close();
+
+        const data = new Uint8Array(TEST_XYZ_DATA.length + 10);
+        data.set(TEST_XYZ_DATA, 10);
+        trajectory = await Trajectory.fromFile(data.subarray(10), 'XYZ');
+        trajectory.read(frame);
+        assert.equal(frame.size, 3);
+        trajectory.close();
+
+        frame.delete();
+    });
+
+    it('fails without format & file name', async () => {
+        try {
+            await Trajectory.fromFile(new Blob(['not a chemistry file']));
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            assert.equal(
+                // eslint-disable-next-line no-extra-parens
+                (error as Error).message,
+                'format is required to read a Blob or ArrayBuffer without file name'
+            );
+        }
+    });
+});
+
 let EXAMPLE_FRAME: Frame;
 const EXPECTED_XYZ = `2
 Properties=species:S:1:pos:R:3
@@ -91,14 +297,14 @@ describe('MemoryWriter', () => {
 
     it('works with a path', () => {
         const trajectory = new MemoryWriter('', 'test.xyz');
-        const path = trajectory.path;
+        assert.equal(trajectory.path, 'test.xyz');
+        assert.equal(trajectory.format, 'XYZ');
+        assert.equal(trajectory.mode, 'w');
 
         trajectory.write(EXAMPLE_FRAME);
         trajectory.close();
 
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
-        const content = FS.readFile(path, { encoding: 'binary' });
-        const data = new TextDecoder().decode(content);
+        const data = new TextDecoder().decode(trajectory.asUint8Array());
         assert.equal(data, EXPECTED_XYZ);
 
         trajectory.remove();
@@ -106,19 +312,133 @@ describe('MemoryWriter', () => {
 
     it('works with both', () => {
         const trajectory = new MemoryWriter('XYZ', 'test.unknown');
-        const path = trajectory.path;
 
         trajectory.write(EXAMPLE_FRAME);
         trajectory.close();
 
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
-        const content = FS.readFile(path, { encoding: 'binary' });
-        const data = new TextDecoder().decode(content);
+        const data = new TextDecoder().decode(trajectory.asUint8Array());
         assert.equal(data, EXPECTED_XYZ);
 
         trajectory.remove();
     });
 
+    it('gives access to the content before closing', () => {
+        const trajectory = new MemoryWriter('XYZ');
+
+        trajectory.write(EXAMPLE_FRAME);
+        let data = new TextDecoder().decode(trajectory.asUint8Array());
+        assert.equal(data, EXPECTED_XYZ);
+
+        trajectory.write(EXAMPLE_FRAME);
+        data = new TextDecoder().decode(trajectory.asUint8Array());
+        assert.equal(data, EXPECTED_XYZ + EXPECTED_XYZ);
+
+        trajectory.close();
+        data = new TextDecoder().decode(trajectory.asUint8Array());
+        assert.equal(data, EXPECTED_XYZ + EXPECTED_XYZ);
+    });
+
+    it('matches files written to disk', () => {
+        const content = (format: string) => {
+            const path = 'test-tmp-memory-writer';
+            const file = new Trajectory(path, 'w', format);
+            file.write(EXAMPLE_FRAME);
+            file.close();
+            // eslint-disable-next-line
+            const result: string = FS.readFile(path, { encoding: 'utf8' });
+            // eslint-disable-next-line
+            FS.unlink(path);
+
+            const memory = new MemoryWriter(format);
+            memory.write(EXAMPLE_FRAME);
+            memory.close();
+            const data = new TextDecoder().decode(memory.asUint8Array());
+            return { data, file: result };
+        };
+
+        let { data, file } = content('XYZ');
+        assert.equal(data, file);
+
+        // chemfiles only writes the END record when closing the trajectory
+        ({ data, file } = content('PDB'));
+        assert.equal(data, file);
+        assert.isTrue(data.endsWith('END\n'));
+
+        // the whole CML document is written when closing the trajectory
+        ({ data, file } = content('CML'));
+        assert.equal(data, file);
+        assert.include(data, '<cml');
+    });
+
+    it('can write formats which are only complete after closing', () => {
+        const trajectory = new MemoryWriter('', 'test.mmtf');
+        trajectory.write(EXAMPLE_FRAME);
+        trajectory.close();
+
+        const frame = new Frame();
+        const reader = new MemoryReader(trajectory.asUint8Array(), 'MMTF');
+        reader.read(frame);
+        assert.equal(frame.size, 2);
+        // MMTF stores positions as single precision floats
+        assert.arrayEqual(frame.positions[1], [5, 6, 7], 1e-6);
+        reader.close();
+        frame.delete();
+    });
+
+    it('can create blobs for formats which are only complete after closing', async () => {
+        const trajectory = new MemoryWriter('PDB');
+        trajectory.write(EXAMPLE_FRAME);
+        trajectory.close();
+
+        const blob = trajectory.asBlob();
+        assert.equal(blob.type, 'chemical/x-pdb');
+        const text = await blob.text();
+        assert.include(text, 'HETATM');
+        assert.isTrue(text.endsWith('END\n'));
+    });
+
+    it('can create blobs', async () => {
+        const trajectory = new MemoryWriter('XYZ');
+        trajectory.write(EXAMPLE_FRAME);
+
+        const blob = trajectory.asBlob();
+        assert.equal(blob.type, 'chemical/x-xyz');
+        assert.equal(await blob.text(), EXPECTED_XYZ);
+
+        assert.equal(trajectory.asBlob('text/x-custom').type, 'text/x-custom');
+        trajectory.close();
+        assert.equal(await trajectory.asBlob().text(), EXPECTED_XYZ);
+
+        for (const [writer, type] of [
+            [new MemoryWriter('', 'test.pdb'), 'chemical/x-pdb'],
+            [new MemoryWriter('GRO'), 'text/plain'],
+        ] as const) {
+            assert.equal(writer.asBlob().type, type);
+            writer.close();
+        }
+    });
+
+    it('can only download files in browsers', () => {
+        const trajectory = new MemoryWriter('XYZ');
+        assert.throwWith(
+            () => trajectory.download(),
+            'MemoryWriter.download is only available in browsers'
+        );
+        trajectory.close();
+    });
+
+    it('can not write compressed data', () => {
+        assert.throws(() => new MemoryWriter('XYZ', '', { compression: 'GZ' }), FileError);
+        assert.throws(() => new MemoryWriter('', 'test.xyz.gz'), FileError);
+
+        const trajectory = new MemoryWriter('', 'test.xyz.gz', { compression: 'none' });
+        trajectory.write(EXAMPLE_FRAME);
+        trajectory.close();
+
+        const data = new TextDecoder().decode(trajectory.asUint8Array());
+        assert.equal(data, EXPECTED_XYZ);
+    });
+
     it('fails without format & path', () => {
         assert.throwWith(
             () => new MemoryWriter(''),
@@ -0,0 +1,176 @@
+import path from 'path';
+
+import {
+    CachedTrajectory,
+    MemoryReader,
+    Trajectory,
+    WarningError,
+    ready,
+    scope,
+    withWarnings,
+} from 'chemfiles';
+
+import { assert } from './utils';
+
+import { DATA_ROOT, setupDataFiles } from './data';
+
+const TEST_PDB_DATA = new TextEncoder().encode(`FOOBAR unknown record
+HETATM    1  O   HOH A   1       0.417   8.303  11.737  1.00  0.00           O
+END
+`);
+
+/** Wait for all pending prefetching to happen */
+function waitForPrefetch() {
+    return new Promise((resolve) => setTimeout(resolve, 100));
+}
+
+describe('CachedTrajectory', () => {
+    before((done) => {
+        ready(() => {
+            setupDataFiles()
+                .then(() => done())
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
+    });
+
+    it('caches frames', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const cached = new CachedTrajectory(trajectory);
+        assert.equal(cached.nsteps, 100);
+
+        let frame = cached.readStep(41);
+        assert.equal(frame.size, 297);
+        assert.arrayEqual(frame.positions[0], [0.761277, 8.106125, 10.622949], 1e-12);
+        // frames are copies of the cached data
+        frame.positions[0][0] = 42;
+        frame.delete();
+
+        frame = cached.readStep(41);
+        assert.arrayEqual(frame.positions[0], [0.761277, 8.106125, 10.622949], 1e-12);
+        frame.delete();
+
+        cached.readStep(3).delete();
+
+        const statistics = cached.statistics;
+        assert.equal(statistics.hits, 1);
+        assert.equal(statistics.misses, 2);
+        assert.equal(statistics.frames, 2);
+        assert.isAbove(statistics.memory, 0);
+
+        cached.close();
+        assert.throwWith(() => cached.readStep(3), 'this CachedTrajectory is closed');
+        assert.throws(() => trajectory.nsteps, Error);
+    });
+
+    it('keeps cached frames alive after a scope', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const cached = new CachedTrajectory(trajectory);
+
+        scope(() => {
+            scope(() => cached.readStep(3).size);
+        });
+        assert.equal(cached.statistics.frames, 1);
+
+        // the cached frame is still valid
+        const size = scope(() => cached.readStep(3).size);
+        assert.equal(size, 297);
+        assert.equal(cached.statistics.hits, 1);
+
+        cached.close();
+    });
+
+    it('evicts least recently used frames', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const cached = new CachedTrajectory(trajectory);
+        // find the memory used by a single frame
+        cached.readStep(0).delete();
+        const memory = cached.statistics.memory;
+        cached.close();
+
+        const small = new CachedTrajectory(new Trajectory(path.join(DATA_ROOT, 'water.xyz')), {
+            memoryBudget: 2 * memory,
+        });
+        for (const step of [0, 1, 0, 2, 0, 1]) {
+            small.readStep(step).delete();
+        }
+
+        const statistics = small.statistics;
+        assert.equal(statistics.frames, 2);
+        assert.equal(statistics.evicted, 2);
+        assert.equal(statistics.hits, 2);
+        assert.equal(statistics.misses, 4);
+        small.close();
+
+        // frames larger than the budget are not cached
+        const none = new CachedTrajectory(new Trajectory(path.join(DATA_ROOT, 'water.xyz')), {
+            memoryBudget: 0,
+        });
+        const frame = none.readStep(5);
+        assert.equal(frame.size, 297);
+        frame.delete();
+        assert.equal(none.statistics.frames, 0);
+        none.close();
+    });
+
+    it('prefetches steps in the playback direction', async () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const cached = new CachedTrajectory(trajectory, { prefetch: 3 });
+
+        cached.readStep(10).delete();
+        await waitForPrefetch();
+        assert.equal(cached.statistics.prefetched, 3);
+
+        for (const step of [11, 12, 13]) {
+            cached.readStep(step).delete();
+        }
+        assert.equal(cached.statistics.hits, 3);
+
+        // going backward, cancelling the prefetching after step 13
+        cached.readStep(5).delete();
+        await waitForPrefetch();
+        assert.equal(cached.statistics.prefetched, 6);
+        const frame = cached.readStep(3);
+        assert.equal(frame.step, 3);
+        frame.delete();
+        assert.equal(cached.statistics.hits, 4);
+
+        // prefetching stops at the end of the trajectory
+        cached.readStep(98).delete();
+        await waitForPrefetch();
+        assert.equal(cached.statistics.prefetched, 7);
+
+        cached.close();
+    });
+
+    it('reads steps again in strict mode', async () => {
+        const cached = new CachedTrajectory(new MemoryReader(TEST_PDB_DATA, 'PDB'));
+
+        const { warnings } = withWarnings(() => cached.readStep(0).delete());
+        assert.equal(warnings.length, 1);
+
+        // the cached frame was read with warnings
+        assert.throws(() => cached.readStep(0, { strict: true }), WarningError);
+        assert.equal(cached.statistics.misses, 2);
+
+        // the non-strict frame is still cached
+        cached.readStep(0).delete();
+        assert.equal(cached.statistics.hits, 1);
+        cached.close();
+
+        // prefetched frames are read without strict mode
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const prefetched = new CachedTrajectory(trajectory, { prefetch: 1 });
+        prefetched.readStep(10).delete();
+        await waitForPrefetch();
+        assert.equal(prefetched.statistics.prefetched, 1);
+
+        prefetched.readStep(11, { strict: true }).delete();
+        assert.equal(prefetched.statistics.misses, 2);
+        prefetched.readStep(11, { strict: true }).delete();
+        assert.equal(prefetched.statistics.hits, 1);
+        assert.equal(prefetched.statistics.frames, 2);
+
+        prefetched.close();
+    });
+});
@@ -25,6 +25,7 @@ if (IS_NODE) {
 } else {
     DATA_ROOT = '/tmp';
     setupDataFiles = async (): Promise<void> => {
+        await addFileToMEMFS('co2.xyz');
         await addFileToMEMFS('test-config.toml');
         await addFileToMEMFS('topology.xyz');
         await addFileToMEMFS('water.xyz');
@@ -32,4 +33,12 @@ if (IS_NODE) {
     };
 }
 
-export { DATA_ROOT, setupDataFiles };
+/**
+ * Read the content of the data file at `path`, for example to use it with
+ * in-memory trajectories. This must be called after `setupDataFiles`.
+ */
+function readDataFile(path: string): Uint8Array {
+    return FS.readFile(`${DATA_ROOT}/${path}`);
+}
+
+export { DATA_ROOT, readDataFile, setupDataFiles };
@@ -0,0 +1,55 @@
+import { Atom, Frame, debug, ready } from 'chemfiles';
+
+import { assert } from './utils';
+
+describe('debug mode', () => {
+    before((done) => {
+        ready(() => done());
+    });
+
+    afterEach(() => debug.disable());
+
+    it('does not track objects by default', () => {
+        const atom = new Atom('Zn');
+        assert.equal(debug.liveObjects().length, 0);
+        atom.delete();
+    });
+
+    it('tracks live objects', () => {
+        debug.enable({ reportAtExit: false });
+
+        const frame = new Frame();
+        frame.resize(3);
+        const atom = frame.atom(0);
+
+        const live = debug.liveObjects();
+        assert.equal(live.length, 2);
+        assert.equal(live[0].className, 'Frame');
+        assert.equal(live[1].className, 'Atom');
+        assert.include(live[1].stack, 'Frame.atom');
+
+        frame.delete();
+        assert.equal(debug.liveObjects().length, 1);
+        atom.delete();
+        assert.equal(debug.liveObjects().length, 0);
+    });
+
+    it('reports leaked objects', () => {
+        debug.enable({ reportAtExit: false });
+        const atom = new Atom('Zn');
+
+        let MESSAGE = '';
+        // eslint-disable-next-line no-console
+        const consoleWarn = console.warn;
+        // eslint-disable-next-line no-console
+        console.warn = (message: string) => (MESSAGE = message);
+        debug.reportLeaks();
+        // eslint-disable-next-line no-console
+        console.warn = consoleWarn;
+
+        assert.isTrue(
+            MESSAGE.startsWith('[chemfiles] 1 object(s) were not deleted:\nAtom allocated')
+        );
+        atom.delete();
+    });
+});
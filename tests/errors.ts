@@ -0,0 +1,105 @@
+import path from 'path';
+
+import {
+    ChemfilesError,
+    ConfigurationError,
+    FileError,
+    FormatError,
+    Frame,
+    OutOfBoundsError,
+    Selection,
+    Trajectory,
+    addConfiguration,
+    ready,
+} from 'chemfiles';
+
+import { assert, disableWarnings } from './utils';
+
+import { DATA_ROOT, setupDataFiles } from './data';
+
+function catchError(callback: () => void): ChemfilesError {
+    try {
+        callback();
+    } catch (error) {
+        assert.instanceOf(error, ChemfilesError);
+        assert.instanceOf(error, Error);
+        return error as ChemfilesError;
+    }
+    throw Error('no error thrown when one was expected');
+}
+
+describe('Errors', () => {
+    before((done) => {
+        ready(() => {
+            setupDataFiles()
+                .then(() => done())
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
+    });
+
+    it('are typed for files and formats', () => {
+        disableWarnings(() => {
+            let error = catchError(() => new Trajectory('not-here.xyz'));
+            assert.instanceOf(error, FileError);
+            assert.equal(error.name, 'FileError');
+            assert.equal(error.status, 2);
+            assert.equal(error.operation, 'chfl_trajectory_open');
+            assert.equal(error.message, "could not open the file at 'not-here.xyz'");
+
+            error = catchError(() => new Trajectory('not-here.xyz', 'r', 'FOO'));
+            assert.instanceOf(error, FormatError);
+            assert.equal(error.status, 3);
+            assert.equal(error.operation, 'chfl_trajectory_with_format');
+
+            error = catchError(() => new Trajectory('not-here.unknown'));
+            assert.instanceOf(error, FormatError);
+            assert.equal(error.operation, 'chfl_trajectory_open');
+            assert.equal(
+                error.message,
+                "can not find a format associated with the '.unknown' extension"
+            );
+
+            error = catchError(() => new Trajectory('not-here'));
+            assert.instanceOf(error, FileError);
+            assert.equal(error.operation, 'chfl_trajectory_open');
+
+            const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+            const frame = new Frame();
+            error = catchError(() => trajectory.readStep(1000, frame));
+            assert.instanceOf(error, FileError);
+            assert.equal(error.operation, 'chfl_trajectory_read_step');
+            trajectory.close();
+            frame.delete();
+        });
+    });
+
+    it('are typed for selections', () => {
+        const error = catchError(() => new Selection('name =='));
+        assert.equal(error.name, 'SelectionError');
+        assert.equal(error.status, 4);
+        assert.equal(error.operation, 'chfl_selection');
+    });
+
+    it('are typed for out of bounds access', () => {
+        const frame = new Frame();
+        frame.resize(3);
+
+        let error = catchError(() => frame.atom(10));
+        assert.instanceOf(error, OutOfBoundsError);
+        assert.equal(error.status, 6);
+        assert.equal(error.operation, 'chfl_atom_from_frame');
+
+        error = catchError(() => frame.distance(0, 10));
+        assert.instanceOf(error, OutOfBoundsError);
+        assert.equal(error.operation, 'chfl_frame_distance');
+
+        frame.delete();
+    });
+
+    it('are typed for configuration', () => {
+        const error = catchError(() => addConfiguration('not-here.toml'));
+        assert.instanceOf(error, ConfigurationError);
+        assert.equal(error.status, 5);
+    });
+});
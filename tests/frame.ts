@@ -1,6 +1,7 @@
 import path from 'path';
 
 import {
+    Array3D,
     Atom,
     BondOrder,
     Frame,
@@ -192,6 +193,57 @@ describe('Frame', () => {
         frame.delete();
     });
 
+    it('invalidates borrowed objects', () => {
+        const frame = new Frame();
+        frame.resize(3);
+
+        const atom = frame.atom(0);
+        const cell = frame.cell();
+        const topology = frame.topology();
+        const residue = new Residue('ALA');
+        frame.addResidue(residue);
+
+        const modified = 'after the Frame containing it was modified';
+        assert.throwWith(() => atom.name, `trying to access this Atom ${modified}`);
+        assert.throwWith(() => cell.volume, `trying to access this UnitCell ${modified}`);
+        assert.throwWith(() => topology.size, `trying to access this Topology ${modified}`);
+        atom.delete();
+        cell.delete();
+        topology.delete();
+
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const first = frame.atom(0);
+        trajectory.read(frame);
+        assert.throwWith(() => first.name, `trying to access this Atom ${modified}`);
+        first.delete();
+        trajectory.close();
+
+        frame.addResidue(residue);
+        residue.delete();
+
+        // errors refer to the object accessed, even when the owner of its
+        // owner was modified or deleted
+        const nestedTopology = frame.topology();
+        const nestedResidue = nestedTopology.residue(0);
+        frame.resize(4);
+        assert.throwWith(() => nestedResidue.name, `trying to access this Residue ${modified}`);
+        nestedResidue.delete();
+        nestedTopology.delete();
+
+        const last = frame.atom(0);
+        const lastTopology = frame.topology();
+        const lastResidue = lastTopology.residue(0);
+        frame.delete();
+
+        const deleted = 'after the Frame containing it was deleted';
+        assert.throwWith(() => last.name, `trying to access this Atom ${deleted}`);
+        assert.throwWith(() => lastResidue.name, `trying to access this Residue ${deleted}`);
+
+        last.delete();
+        lastResidue.delete();
+        lastTopology.delete();
+    });
+
     it('has positions', () => {
         const frame = new Frame();
 
@@ -228,6 +280,33 @@ describe('Frame', () => {
         }
         assert.equal(sum, 21);
 
+        // iteration gives views inside the frame data
+        const copies = Array.from(frame.positions, (p) => [p[0], p[1], p[2]]);
+        assert.deepEqual(copies, [
+            [1, 2, 3],
+            [4, 5, 6],
+        ]);
+        assert.deepEqual(
+            [...frame.positions].map((p) => p[2]),
+            [3, 6]
+        );
+        for (const p of frame.positions) {
+            p[0] += 10;
+        }
+        assert.arrayEqual(frame.positions[1], [14, 5, 6]);
+
+        // vectors() re-uses the same vector
+        sum = 0;
+        const vectors = new Set();
+        for (const p of frame.positions.vectors()) {
+            sum += p[0] + p[1] + p[2];
+            vectors.add(p);
+        }
+        assert.equal(sum, 41);
+        assert.equal(vectors.size, 1);
+        frame.positions.set(0, 1, 2, 3);
+        frame.positions.set(1, 4, 5, 6);
+
         /* eslint-disable */
         const positions = frame.positions as any;
         assert.arrayEqual(positions[0], [1, 2, 3]);
@@ -249,6 +328,95 @@ describe('Frame', () => {
         frame.delete();
     });
 
+    it('Array3D has fast accessors', () => {
+        const frame = new Frame();
+        frame.resize(3);
+        const positions = frame.positions;
+
+        positions.set(2, 1, 2, 3);
+        assert.equal(positions.getX(2), 1);
+        assert.equal(positions.getY(2), 2);
+        assert.equal(positions.getZ(2), 3);
+        assert.deepEqual(positions.get(2), [1, 2, 3]);
+
+        const out = new Float32Array(3);
+        assert.equal(positions.get(2, out), out);
+        assert.deepEqual(Array.from(out), [1, 2, 3]);
+
+        const array = positions.array;
+        assert.instanceOf(array, Float64Array);
+        assert.equal(array.length, 9);
+        assert.deepEqual(Array.from(array.subarray(6)), [1, 2, 3]);
+
+        const visited: number[] = [];
+        positions.forEach((x, y, z, i) => {
+            visited.push(i);
+            assert.equal(x + y + z, i === 2 ? 6 : 0);
+        });
+        assert.deepEqual(visited, [0, 1, 2]);
+
+        assert.throwWith(
+            () => positions.getX(3),
+            'out of bounds index in Array3D: we have 3 elements, but the index is 3'
+        );
+        assert.throwWith(
+            () => positions.set(-1, 0, 0, 0),
+            'out of bounds index in Array3D: we have 3 elements, but the index is -1'
+        );
+        assert.equal(positions[3], undefined);
+
+        frame.delete();
+    });
+
+    it('Array3D survives memory growth and resizing', () => {
+        const frame = new Frame();
+        frame.resize(2);
+        frame.addVelocities();
+
+        const positions = frame.positions;
+        positions[1] = [1, 2, 3];
+
+        // allocate enough memory to force the WASM heap to grow
+        const big = new Frame();
+        big.resize(1000000);
+        assert.arrayEqual(positions[1], [1, 2, 3]);
+        big.delete();
+
+        // modifications which do not move the data keep the array valid
+        frame.addBond(0, 1);
+        frame.resize(2);
+        assert.arrayEqual(positions[1], [1, 2, 3]);
+
+        const velocities = frame.velocities as Array3D;
+        frame.resize(1000);
+        assert.throwWith(
+            () => positions[1],
+            'the positions of this Frame changed since this Array3D was created, use Frame.positions to get a new one'
+        );
+        assert.throwWith(
+            () => velocities[1],
+            'the velocities of this Frame changed since this Array3D was created, use Frame.velocities to get a new one'
+        );
+
+        frame.delete();
+    });
+
+    it('Array3D can not be used after the frame is deleted', () => {
+        const frame = new Frame();
+        frame.resize(2);
+        frame.addVelocities();
+
+        const positions = frame.positions;
+        const velocities = frame.velocities as Array3D;
+        frame.delete();
+
+        const deleted = 'trying to access an object after calling delete()';
+        assert.throwWith(() => positions[1], deleted);
+        assert.throwWith(() => positions.getX(0), deleted);
+        assert.throwWith(() => positions.set(0, 1, 2, 3), deleted);
+        assert.throwWith(() => velocities.array, deleted);
+    });
+
     it('can have velocities', () => {
         const frame = new Frame();
 
@@ -287,6 +455,48 @@ describe('Frame', () => {
         frame.delete();
     });
 
+    it('can copy positions and velocities', () => {
+        const frame = new Frame();
+        frame.resize(2);
+
+        frame.setPositions([1, 2, 3, 4, 5, 6]);
+        assert.deepEqual(Array.from(frame.getPositions()), [1, 2, 3, 4, 5, 6]);
+
+        // the copy is independent from the frame
+        const copy = frame.getPositions();
+        copy[0] = 42;
+        assert.arrayEqual(frame.positions[0], [1, 2, 3]);
+
+        const out = new Float32Array(8);
+        assert.equal(frame.getPositions(out), out);
+        assert.deepEqual(Array.from(out), [1, 2, 3, 4, 5, 6, 0, 0]);
+
+        assert.throwWith(
+            () => frame.getPositions(new Float64Array(3)),
+            'output array is too small: expected at least 6 values, got 3'
+        );
+        assert.throwWith(
+            () => frame.setPositions([1, 2, 3]),
+            'wrong size for input array: expected 6 values, got 3'
+        );
+
+        assert.equal(frame.getVelocities(), undefined);
+        assert.throwWith(
+            () => frame.setVelocities([1, 2, 3]),
+            'wrong size for input array: expected 6 values, got 3'
+        );
+        // the frame is not modified when the size is wrong
+        assert.equal(frame.velocities, undefined);
+
+        frame.setVelocities(new Float32Array([0.5, 1, 1.5, 2, 2.5, 3]));
+        assert.deepEqual(
+            Array.from(frame.getVelocities() as Float64Array),
+            [0.5, 1, 1.5, 2, 2.5, 3]
+        );
+
+        frame.delete();
+    });
+
     it('can compute distances', () => {
         const frame = new Frame();
         const cell = new UnitCell([3.0, 4.0, 5.0]);
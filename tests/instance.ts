@@ -0,0 +1,118 @@
+import * as chemfiles from 'chemfiles';
+
+import { assert } from './utils';
+
+import { readDataFile, setupDataFiles } from './data';
+
+describe('Independent instances', () => {
+    let OTHER: chemfiles.Chemfiles;
+
+    before(async () => {
+        await chemfiles.init();
+        await setupDataFiles();
+        OTHER = await chemfiles.createChemfiles();
+    });
+
+    it('have their own memory', () => {
+        assert.notEqual(OTHER.lib, chemfiles.lib);
+        assert.notEqual(OTHER.FS, chemfiles.FS);
+
+        const frame = new OTHER.Frame();
+        frame.resize(3);
+        assert.instanceOf(frame, OTHER.Frame);
+        assert.instanceOf(frame, chemfiles.Frame);
+
+        const trajectory = new OTHER.MemoryReader(readDataFile('co2.xyz'), 'XYZ');
+        trajectory.read(frame);
+        trajectory.remove();
+
+        // interleave calls on the default instance
+        const atom = new chemfiles.Atom('Zn');
+        assert.equal(frame.atom(0).name, 'C');
+        assert.arrayEqual(frame.positions[2], [0, 0, 1]);
+        assert.equal(atom.name, 'Zn');
+
+        const copy = OTHER.Frame.clone(frame);
+        assert.equal(copy.size, 3);
+
+        copy.delete();
+        atom.delete();
+        frame.delete();
+    });
+
+    it('give access to positions', () => {
+        const frame = new OTHER.Frame();
+        frame.resize(2);
+        const positions = frame.positions;
+        positions.set(1, 1, 2, 3);
+
+        // grow the memory of the other instance
+        const big = new OTHER.Frame();
+        big.resize(1000000);
+        assert.arrayEqual(positions.get(1), [1, 2, 3]);
+        assert.equal(positions.getZ(1), 3);
+        big.delete();
+
+        frame.resize(1000);
+        assert.throwWith(
+            () => positions.getX(1),
+            'the positions of this Frame changed since this Array3D was created, use Frame.positions to get a new one'
+        );
+
+        frame.delete();
+    });
+
+    it('have their own warning callback', () => {
+        let DEFAULT_MESSAGE = '';
+        let OTHER_MESSAGE = '';
+        chemfiles.setWarningCallback((message) => (DEFAULT_MESSAGE = message));
+        OTHER.setWarningCallback((message) => (OTHER_MESSAGE = message));
+
+        assert.throws(() => new OTHER.Trajectory('not-here'));
+        assert.equal(DEFAULT_MESSAGE, '');
+        assert.equal(
+            OTHER_MESSAGE,
+            "file at 'not-here' does not have an extension, provide a format name to read it"
+        );
+
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        chemfiles.setWarningCallback(() => {});
+    });
+
+    it('reset the module when activating an unloaded instance', () => {
+        const lib = chemfiles.lib;
+        const FS = chemfiles.FS;
+
+        const previous = chemfiles.activate({
+            operation: '',
+            strict: false,
+            warningCallback: () => undefined,
+        });
+        try {
+            assert.isUndefined(chemfiles.lib);
+            assert.isUndefined(chemfiles.FS);
+        } finally {
+            chemfiles.activate(previous);
+        }
+
+        assert.equal(chemfiles.lib, lib);
+        assert.equal(chemfiles.FS, FS);
+    });
+
+    it('can not mix objects', () => {
+        const frame = new OTHER.Frame();
+        const atom = new chemfiles.Atom('Zn');
+
+        assert.throwWith(
+            () => frame.addAtom(atom, [0, 0, 0]),
+            'this Atom belongs to a different chemfiles instance'
+        );
+        assert.throwWith(
+            () => chemfiles.Frame.clone(frame),
+            'this Frame belongs to a different chemfiles instance'
+        );
+
+        atom.delete();
+        frame.delete();
+    });
+});
@@ -15,6 +15,16 @@ describe('Miscellaneous chemfiles functions', () => {
         });
     });
 
+    it('can be initialized with a promise', async () => {
+        const promise = chemfiles.init();
+        assert.equal(chemfiles.init({ printErr: (text) => assert.fail(text) }), promise);
+        await promise;
+
+        let called = false;
+        chemfiles.ready(() => (called = true));
+        assert.isTrue(called);
+    });
+
     it('has a version', () => {
         assert.isTrue(chemfiles.version().startsWith('0.10'));
     });
@@ -101,4 +111,36 @@ describe('Miscellaneous chemfiles functions', () => {
         assert.equal(chemfiles.guessFormat('test.xyz'), 'XYZ');
         assert.equal(chemfiles.guessFormat('test.xyz.gz'), 'XYZ / GZ');
     });
+
+    it('can guess file format from content', () => {
+        const guess = (content: string) =>
+            chemfiles.guessFormatFromContent(new TextEncoder().encode(content));
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        let data: Uint8Array = chemfiles.FS.readFile(path.join(DATA_ROOT, 'water.trr'));
+        assert.deepEqual(chemfiles.guessFormatFromContent(data), ['TRR']);
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        data = chemfiles.FS.readFile(path.join(DATA_ROOT, 'water.xyz'));
+        assert.equal(chemfiles.guessFormatFromContent(data)[0], 'XYZ');
+
+        const pdb = [
+            'CRYST1   15.000   15.000   15.000  90.00  90.00  90.00 P 1           1',
+            'ATOM      1  N   ALA A   1       0.000   0.000   0.000  1.00  0.00           N',
+            'END',
+        ];
+        assert.deepEqual(guess(pdb.join('\n')), ['PDB']);
+
+        const gro = ['title', '    1', '    1SOL     OW    1   0.126   1.624   1.679', '   1 1 1'];
+        assert.deepEqual(guess(gro.join('\n')), ['GRO']);
+
+        assert.equal(guess('data_test\n_atom_site.Cartn_x 1.0\n')[0], 'mmCIF');
+        assert.equal(guess('data_test\n_cell_length_a 4.0\n')[0], 'CIF');
+        assert.deepEqual(guess('@<TRIPOS>MOLECULE\ntest\n'), ['MOL2']);
+        assert.deepEqual(guess('c1ccccc1 benzene\nCC(=O)O\n'), ['SMI']);
+
+        assert.deepEqual(guess(''), []);
+        assert.deepEqual(guess('this is not a chemistry file'), []);
+        assert.deepEqual(chemfiles.guessFormatFromContent(new Uint8Array([0x1f, 0x8b, 8])), []);
+    });
 });
@@ -0,0 +1,91 @@
+import { Atom, Frame, keep, ready, scope } from 'chemfiles';
+
+import { assert } from './utils';
+
+const DELETED = 'trying to access an object after calling delete()';
+
+describe('scope', () => {
+    before((done) => {
+        ready(() => done());
+    });
+
+    it('deletes objects created inside the scope', () => {
+        let atom: Atom | undefined;
+        let cellLength = 0;
+        const frame = new Frame();
+        frame.resize(3);
+
+        scope(() => {
+            atom = new Atom('Zn');
+            const fromFrame = frame.atom(1);
+            fromFrame.name = 'Fe';
+
+            const cell = frame.cell();
+            cellLength = cell.lengths[0];
+        });
+
+        assert.equal(cellLength, 0);
+        assert.throwWith(() => atom?.name, DELETED);
+
+        // objects created outside of the scope are untouched
+        assert.equal(frame.size, 3);
+        const fromFrame = frame.atom(1);
+        assert.equal(fromFrame.name, 'Fe');
+        fromFrame.delete();
+
+        frame.delete();
+    });
+
+    it('keeps returned objects', () => {
+        const atom = scope(() => new Atom('Zn'));
+        assert.equal(atom.name, 'Zn');
+        atom.delete();
+
+        const atoms = scope(() => [new Atom('Zn'), new Atom('Fe')]);
+        assert.equal(atoms[0].name, 'Zn');
+        assert.equal(atoms[1].name, 'Fe');
+        atoms[0].delete();
+        atoms[1].delete();
+    });
+
+    it('keeps explicitly kept objects', () => {
+        let kept: Atom | undefined;
+        let other: Atom | undefined;
+        scope(() => {
+            kept = keep(new Atom('Zn'));
+            other = new Atom('Fe');
+        });
+
+        assert.equal(kept?.name, 'Zn');
+        assert.throwWith(() => other?.name, DELETED);
+        kept?.delete();
+    });
+
+    it('deletes objects when the callback throws', () => {
+        let atom: Atom | undefined;
+        assert.throws(() => {
+            scope(() => {
+                atom = new Atom('Zn');
+                throw Error('oops');
+            });
+        }, 'oops');
+        assert.throwWith(() => atom?.name, DELETED);
+    });
+
+    it('can be nested', () => {
+        let inner: Atom | undefined;
+        let escaped: Atom | undefined;
+        scope(() => {
+            escaped = scope(() => {
+                inner = new Atom('Fe');
+                return new Atom('Zn');
+            });
+
+            assert.throwWith(() => inner?.name, DELETED);
+            assert.equal(escaped.name, 'Zn');
+        });
+
+        // escaped objects are deleted by the outer scope
+        assert.throwWith(() => escaped?.name, DELETED);
+    });
+});
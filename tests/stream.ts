@@ -0,0 +1,147 @@
+import path from 'path';
+
+import { FS, Frame, StreamReader, ready } from 'chemfiles';
+
+import { assert } from './utils';
+
+import { DATA_ROOT, setupDataFiles } from './data';
+
+const TEST_PDB_DATA = `MODEL        1
+HETATM    1  O   HOH A   1       0.417   8.303  11.737  1.00  0.00           O
+ENDMDL
+MODEL        2
+HETATM    1  O   HOH A   1       1.417   8.303  11.737  1.00  0.00           O
+HETATM    2  O   HOH A   2       2.417   8.303  11.737  1.00  0.00           O
+ENDMDL
+END
+`;
+
+const TEST_GRO_FRAME = [
+    'Generated by test',
+    '    2',
+    '    1SOL     OW    1   0.126   1.624   1.679',
+    '    1SOL    HW1    2   0.190   1.661   1.747',
+    '   1.86206   1.86206   1.86206',
+];
+
+/** Create a ReadableStream producing `data` in chunks of `size` bytes */
+function chunkedStream(data: Uint8Array, size: number, onCancel?: () => void) {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        cancel: onCancel,
+        pull: (controller) => {
+            if (offset >= data.length) {
+                controller.close();
+            } else {
+                controller.enqueue(data.slice(offset, offset + size));
+                offset += size;
+            }
+        },
+    });
+}
+
+/** Produce all the characters of `data` one by one */
+async function* characters(data: string): AsyncGenerator<string, void, void> {
+    for (const char of data) {
+        yield await Promise.resolve(char);
+    }
+}
+
+describe('StreamReader', () => {
+    before((done) => {
+        ready(() => {
+            setupDataFiles()
+                .then(() => done())
+                // eslint-disable-next-line no-console
+                .catch((err) => console.error(err));
+        });
+    });
+
+    it('can read XYZ from a ReadableStream', async () => {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        const data: Uint8Array = FS.readFile(path.join(DATA_ROOT, 'water.xyz'));
+        const reader = new StreamReader(chunkedStream(data, 1000), 'XYZ');
+
+        let count = 0;
+        for await (const frame of reader) {
+            assert.equal(frame.step, count);
+            assert.equal(frame.size, 297);
+            if (count === 41) {
+                assert.arrayEqual(frame.positions[0], [0.761277, 8.106125, 10.622949], 1e-12);
+            }
+            frame.delete();
+            count += 1;
+        }
+        assert.equal(count, 100);
+    });
+
+    it('can read PDB from async iterables', async () => {
+        const reader = new StreamReader(characters(TEST_PDB_DATA), 'PDB');
+
+        const sizes = [];
+        for await (const frame of reader) {
+            sizes.push(frame.size);
+            frame.delete();
+        }
+        assert.deepEqual(sizes, [1, 2]);
+    });
+
+    it('can read GRO without a final new line', async () => {
+        const data = [...TEST_GRO_FRAME, ...TEST_GRO_FRAME].join('\r\n');
+        const reader = new StreamReader(chunkedStream(new TextEncoder().encode(data), 7), 'GRO');
+
+        const frames = [];
+        for await (const frame of reader.frames()) {
+            frames.push(frame);
+        }
+        assert.equal(frames.length, 2);
+        assert.equal(frames[1].step, 1);
+        assert.equal(frames[1].size, 2);
+        assert.arrayEqual(frames[1].positions[1], [1.9, 16.61, 17.47], 1e-12);
+
+        frames.forEach((frame) => frame.delete());
+    });
+
+    it('can stop reading early', async () => {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        const data: Uint8Array = FS.readFile(path.join(DATA_ROOT, 'water.xyz'));
+        let cancelled = false;
+        const reader = new StreamReader(
+            chunkedStream(data, 1000, () => (cancelled = true)),
+            'XYZ'
+        );
+
+        // exit the iteration early. This calls `return` explicitly, since
+        // `break` in `for await` does not when compiling tests to ES5
+        const frames = reader.frames({ reuseFrame: true });
+        let last: Frame | undefined;
+        for (let i = 0; i < 3; i++) {
+            const { value } = await frames.next();
+            if (last !== undefined) {
+                assert.equal(value, last);
+            }
+            last = value as Frame;
+        }
+        await frames.return();
+
+        assert.isTrue(cancelled);
+        assert.throwWith(() => last?.size, 'trying to access an object after calling delete()');
+
+        try {
+            for await (const frame of reader) {
+                frame.delete();
+            }
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            // eslint-disable-next-line no-extra-parens
+            assert.equal((error as Error).message, 'this StreamReader was already used');
+        }
+    });
+
+    it('only supports some formats', () => {
+        assert.throwWith(
+            () => new StreamReader(characters(''), 'TNG'),
+            "can not stream data in 'TNG' format, supported formats are GRO, PDB, XYZ"
+        );
+    });
+});
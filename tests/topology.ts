@@ -67,6 +67,32 @@ describe('Topology', () => {
         topology.delete();
     });
 
+    it('invalidates borrowed objects', () => {
+        const topology = new Topology();
+        topology.resize(3);
+
+        const atom = topology.atom(1);
+        topology.remove(0);
+        assert.throwWith(
+            () => atom.name,
+            'trying to access this Atom after the Topology containing it was modified'
+        );
+        atom.delete();
+
+        const residue = new Residue('ALA');
+        topology.addResidue(residue);
+        residue.delete();
+
+        const borrowed = topology.residue(0);
+        assert.equal(borrowed.name, 'ALA');
+        topology.delete();
+        assert.throwWith(
+            () => borrowed.name,
+            'trying to access this Residue after the Topology containing it was deleted'
+        );
+        borrowed.delete();
+    });
+
     it('contains bonds/angles/dihedrals', () => {
         const topology = new Topology();
         topology.resize(4);
@@ -1,6 +1,18 @@
 import path from 'path';
 
-import { Atom, FS, Frame, Topology, Trajectory, UnitCell, ready } from 'chemfiles';
+import {
+    Atom,
+    FS,
+    Frame,
+    Residue,
+    Topology,
+    Trajectory,
+    UnitCell,
+    WarningError,
+    checkWriteCompatibility,
+    ready,
+    withWarnings,
+} from 'chemfiles';
 
 import { assert } from './utils';
 
@@ -29,6 +41,27 @@ describe('Trajectory', () => {
         trajectory.close();
     });
 
+    it('has a format and a mode', () => {
+        let trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        assert.equal(trajectory.format, 'XYZ');
+        assert.equal(trajectory.metadata.name, 'XYZ');
+        assert.equal(trajectory.metadata.extension, '.xyz');
+        assert.equal(trajectory.mode, 'r');
+        trajectory.close();
+
+        trajectory = new Trajectory(path.join(DATA_ROOT, 'water.trr'), 'r', 'TRR');
+        assert.equal(trajectory.format, 'TRR');
+        assert.isFalse(trajectory.metadata.memory);
+        trajectory.close();
+
+        trajectory = new Trajectory('test-tmp.pdb', 'w');
+        assert.equal(trajectory.format, 'PDB');
+        assert.equal(trajectory.mode, 'w');
+        trajectory.close();
+        // eslint-disable-next-line
+        FS.unlink('test-tmp.pdb');
+    });
+
     it('can be closed', () => {
         const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
         const frame = new Frame();
@@ -41,6 +74,20 @@ describe('Trajectory', () => {
         frame.delete();
     });
 
+    it('can be disposed', () => {
+        // defined by chemfiles if the JavaScript engine does not provide it
+        assert.equal(typeof Symbol.dispose, 'symbol');
+
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+        const frame = new Frame();
+
+        trajectory[Symbol.dispose]();
+        assert.throws(() => trajectory.read(frame), Error);
+
+        frame[Symbol.dispose]();
+        assert.throwWith(() => frame.size, 'trying to access an object after calling delete()');
+    });
+
     it('supports user-specified format', () => {
         const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'), 'r', 'XYZ');
         assert.equal(trajectory.nsteps, 100);
@@ -109,6 +156,169 @@ describe('Trajectory', () => {
         trajectory.close();
     });
 
+    it('can iterate over frames', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        const frames = [];
+        for (const frame of trajectory) {
+            assert.equal(frame.step, frames.length);
+            frames.push(frame);
+        }
+        assert.equal(frames.length, 100);
+        assert.notEqual(frames[0], frames[1]);
+        assert.arrayEqual(frames[41].positions[0], [0.761277, 8.106125, 10.622949], 1e-12);
+
+        frames.forEach((frame) => frame.delete());
+        trajectory.close();
+    });
+
+    it('reads frames sequentially when iterating', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        // count the calls to Trajectory.nsteps
+        let nstepsCalls = 0;
+        const descriptor = Object.getOwnPropertyDescriptor(
+            Trajectory.prototype,
+            'nsteps'
+        ) as PropertyDescriptor;
+        Object.defineProperty(Trajectory.prototype, 'nsteps', {
+            ...descriptor,
+            get(this: Trajectory) {
+                nstepsCalls += 1;
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+                return descriptor.get?.call(this);
+            },
+        });
+
+        try {
+            const { result, warnings } = withWarnings(() => {
+                let count = 0;
+                for (const frame of trajectory.frames({ reuseFrame: true })) {
+                    assert.equal(frame.step, count);
+                    count += 1;
+                }
+                return count;
+            });
+            assert.equal(result, 100);
+            // the end of the file is not reported as a warning
+            assert.deepEqual(warnings, []);
+            // the number of steps is only used to check the end of the file
+            assert.equal(nstepsCalls, 1);
+        } finally {
+            Object.defineProperty(Trajectory.prototype, 'nsteps', descriptor);
+            trajectory.close();
+        }
+    });
+
+    it('can iterate over frames with a single frame', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        let previous: Frame | undefined;
+        let count = 0;
+        for (const frame of trajectory.frames({ reuseFrame: true })) {
+            if (previous !== undefined) {
+                assert.equal(frame, previous);
+            }
+            previous = frame;
+            count += 1;
+        }
+        assert.equal(count, 100);
+        // the frame is released at the end of the iteration
+        assert.throwWith(() => previous?.size, 'trying to access an object after calling delete()');
+
+        // the frame is also released when exiting the loop early
+        for (const frame of trajectory.frames({ reuseFrame: true })) {
+            previous = frame;
+            break;
+        }
+        assert.throwWith(() => previous?.size, 'trying to access an object after calling delete()');
+
+        trajectory.close();
+    });
+
+    it('can iterate asynchronously over frames', async () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        let count = 0;
+        for await (const frame of trajectory) {
+            assert.equal(frame.step, count);
+            frame.delete();
+            count += 1;
+        }
+        assert.equal(count, 100);
+
+        for await (const frame of trajectory.framesAsync({ reuseFrame: true })) {
+            assert.equal(frame.step, 0);
+            break;
+        }
+
+        trajectory.close();
+    });
+
+    it('can read frames with negative indexes', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        let frame = trajectory.at(-1);
+        assert.equal(frame.step, 99);
+        assert.equal(trajectory.at(-100, frame).step, 0);
+        assert.equal(trajectory.at(41, frame).step, 41);
+        frame.delete();
+
+        assert.throwWith(
+            () => trajectory.at(100),
+            'out of bounds index in Trajectory: we have 100 steps, but the index is 100'
+        );
+        assert.throwWith(
+            () => trajectory.at(-101),
+            'out of bounds index in Trajectory: we have 100 steps, but the index is -101'
+        );
+
+        frame = trajectory.slice(-3).at(-1);
+        assert.equal(frame.step, 99);
+        frame.delete();
+
+        trajectory.close();
+    });
+
+    it('can be sliced', () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        const slice = trajectory.slice(0, undefined, 10);
+        assert.equal(slice.length, 10);
+        assert.deepEqual(slice.steps, [0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+
+        const steps = [];
+        for (const frame of slice.frames({ reuseFrame: true })) {
+            steps.push(frame.step);
+        }
+        assert.deepEqual(steps, slice.steps);
+
+        assert.deepEqual(trajectory.slice(-3).steps, [97, 98, 99]);
+        assert.deepEqual(trajectory.slice(5, 8).steps, [5, 6, 7]);
+        assert.deepEqual(trajectory.slice(95, 1000).steps, [95, 96, 97, 98, 99]);
+        assert.deepEqual(trajectory.slice(undefined, undefined, -40).steps, [99, 59, 19]);
+        assert.deepEqual(trajectory.slice(-1, -4, -1).steps, [99, 98, 97]);
+        assert.deepEqual(trajectory.slice(8, 5).steps, []);
+        assert.deepEqual(trajectory.slice(-1000, 2).steps, [0, 1]);
+
+        assert.throwWith(() => trajectory.slice(0, 10, 0), 'slice step must be a non-zero integer');
+
+        trajectory.close();
+    });
+
+    it('can iterate asynchronously over slices', async () => {
+        const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
+
+        const steps = [];
+        for await (const frame of trajectory.slice(-1, undefined, -30)) {
+            steps.push(frame.step);
+            frame.delete();
+        }
+        assert.deepEqual(steps, [99, 69, 39, 9]);
+
+        trajectory.close();
+    });
+
     it('can use user-specified topology', () => {
         const trajectory = new Trajectory(path.join(DATA_ROOT, 'water.xyz'));
         const frame = new Frame();
@@ -204,4 +414,59 @@ describe('Trajectory', () => {
         // eslint-disable-next-line
         FS.unlink(FILEPATH);
     });
+
+    it('can check write compatibility', () => {
+        const frame = new Frame();
+        frame.resize(2);
+        assert.deepEqual(checkWriteCompatibility(frame, 'XYZ'), []);
+        assert.deepEqual(checkWriteCompatibility(frame, 'SMI'), ['positions']);
+
+        frame.addBond(0, 1);
+        const residue = new Residue('ALA');
+        residue.addAtom(0);
+        frame.addResidue(residue);
+        residue.delete();
+        const cell = new UnitCell([10, 10, 10]);
+        frame.setCell(cell);
+        cell.delete();
+        frame.set('energy', -42);
+        assert.deepEqual(checkWriteCompatibility(frame, 'XYZ'), ['bonds', 'residues']);
+        assert.deepEqual(checkWriteCompatibility(frame, 'PDB / GZ'), ['properties']);
+
+        assert.throwWith(() => checkWriteCompatibility(frame, 'FOO'), "unknown format 'FOO'");
+        assert.throwWith(
+            () => checkWriteCompatibility(frame, 'TNG'),
+            'the TNG format does not support writing'
+        );
+
+        const FILEPATH = 'test-tmp.xyz';
+        const trajectory = new Trajectory(FILEPATH, 'w');
+        const { warnings } = withWarnings(() =>
+            trajectory.write(frame, { checkCompatibility: true })
+        );
+        assert.deepEqual(
+            warnings.map((warning) => warning.message),
+            [
+                'bonds will be lost when writing this frame in XYZ format',
+                'residues will be lost when writing this frame in XYZ format',
+            ]
+        );
+        assert.equal(warnings[0].path, FILEPATH);
+
+        assert.throws(
+            () => trajectory.write(frame, { checkCompatibility: true, strict: true }),
+            WarningError
+        );
+
+        trajectory.close();
+        frame.delete();
+
+        // the frame was not written in strict mode
+        const written = new Trajectory(FILEPATH);
+        assert.equal(written.nsteps, 1);
+        written.close();
+
+        // eslint-disable-next-line
+        FS.unlink(FILEPATH);
+    });
 });
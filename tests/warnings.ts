@@ -0,0 +1,133 @@
+import {
+    Atom,
+    Frame,
+    MemoryReader,
+    WarningError,
+    ready,
+    setStrictMode,
+    setWarningCallback,
+    withWarnings,
+} from 'chemfiles';
+
+import { assert } from './utils';
+
+const TEST_PDB_DATA = new TextEncoder().encode(`FOOBAR unknown record
+HETATM    1  O   HOH A   1       0.417   8.303  11.737  1.00  0.00           O
+END
+`);
+
+describe('withWarnings', () => {
+    before((done) => {
+        ready(() => done());
+    });
+
+    it('collects warnings', () => {
+        let MESSAGE = '';
+        setWarningCallback((message) => (MESSAGE = message));
+
+        const atom = new Atom('C');
+        const { result, warnings } = withWarnings(() => {
+            atom.get('foo');
+            return 42;
+        });
+
+        assert.equal(result, 42);
+        assert.deepEqual(warnings, [
+            { message: "can not find a property named 'foo' in this atom" },
+        ]);
+        // the warning callback is not called
+        assert.equal(MESSAGE, '');
+
+        atom.get('bar');
+        assert.equal(MESSAGE, "can not find a property named 'bar' in this atom");
+
+        atom.delete();
+        // eslint-disable-next-line no-console
+        setWarningCallback((message) => console.warn(`[chemfiles] ${message}`));
+    });
+
+    it('tags warnings with trajectory information', () => {
+        const trajectory = new MemoryReader(TEST_PDB_DATA, 'PDB', 'test.pdb');
+        const frame = new Frame();
+
+        const { warnings } = withWarnings(() => trajectory.read(frame));
+        assert.equal(frame.size, 1);
+        assert.equal(warnings.length, 1);
+        assert.equal(
+            warnings[0].message,
+            'PDB reader: ignoring unknown record: FOOBAR unknown record'
+        );
+        assert.equal(warnings[0].format, 'PDB');
+        assert.equal(warnings[0].path, trajectory.path);
+
+        trajectory.remove();
+        frame.delete();
+    });
+
+    it('can be nested', () => {
+        const atom = new Atom('C');
+
+        const outer = withWarnings(() => {
+            atom.get('foo');
+            const inner = withWarnings(() => atom.get('bar'));
+            assert.equal(inner.warnings.length, 1);
+            assert.include(inner.warnings[0].message, 'bar');
+        });
+        assert.equal(outer.warnings.length, 1);
+        assert.include(outer.warnings[0].message, 'foo');
+
+        atom.delete();
+    });
+});
+
+describe('Strict mode', () => {
+    before((done) => {
+        ready(() => done());
+    });
+
+    it('turns warnings into errors', () => {
+        const trajectory = new MemoryReader(TEST_PDB_DATA, 'PDB', 'test.pdb');
+        const frame = new Frame();
+
+        try {
+            trajectory.read(frame, { strict: true });
+            assert.fail('no error thrown when one was expected');
+        } catch (error) {
+            assert.instanceOf(error, WarningError);
+            const warningError = error as WarningError;
+            assert.equal(
+                warningError.message,
+                'PDB reader: ignoring unknown record: FOOBAR unknown record'
+            );
+            assert.equal(warningError.operation, 'chfl_trajectory_read');
+            assert.equal(warningError.warnings.length, 1);
+            assert.equal(warningError.warnings[0].format, 'PDB');
+        }
+        // the frame was still read
+        assert.equal(frame.size, 1);
+
+        trajectory.remove();
+        frame.delete();
+    });
+
+    it('can be enabled globally', () => {
+        const trajectory = new MemoryReader(TEST_PDB_DATA, 'PDB', 'test.pdb');
+        const frame = new Frame();
+
+        setStrictMode(true);
+        try {
+            assert.throws(() => trajectory.readStep(0, frame), WarningError);
+
+            // override the global mode for a single call
+            const { warnings } = withWarnings(() =>
+                trajectory.readStep(0, frame, { strict: false })
+            );
+            assert.equal(warnings.length, 1);
+        } finally {
+            setStrictMode(false);
+        }
+
+        trajectory.remove();
+        frame.delete();
+    });
+});